@@ -4,22 +4,25 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { RefreshCw, Eye, X } from "lucide-react";
-import type { VideoJob } from "@shared/schema";
+import { TERMINAL_STATUSES, type VideoJob } from "@shared/schema";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { POLL_INTERVALS } from "@/hooks/use-job-events";
 
 interface ActiveJobsTableProps {
+  live: boolean;
   onViewJob: (job: VideoJob) => void;
 }
 
-export default function ActiveJobsTable({ onViewJob }: ActiveJobsTableProps) {
+export default function ActiveJobsTable({ live, onViewJob }: ActiveJobsTableProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
   const { data: jobs, isLoading, refetch } = useQuery({
     queryKey: ["/api/video-jobs/active"],
-    refetchInterval: 2000, // Refresh every 2 seconds
+    // Pushed over the event stream; poll only while it is disconnected
+    refetchInterval: live ? false : POLL_INTERVALS.activeJobs,
   });
 
   const cancelJobMutation = useMutation({
@@ -51,7 +54,8 @@ export default function ActiveJobsTable({ onViewJob }: ActiveJobsTableProps) {
       processing_audio: { variant: "default" as const, text: "Processing Audio" },
       creating_video: { variant: "default" as const, text: "Creating Video" },
       completed: { variant: "default" as const, text: "Completed" },
-      failed: { variant: "destructive" as const, text: "Failed" }
+      failed: { variant: "destructive" as const, text: "Failed" },
+      cancelled: { variant: "outline" as const, text: "Cancelled" }
     };
 
     const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.queued;
@@ -79,6 +83,14 @@ export default function ActiveJobsTable({ onViewJob }: ActiveJobsTableProps) {
     return `${diffDays}d ago`;
   };
 
+  const getTimeLeft = (etaAt: Date | string | null) => {
+    if (!etaAt) return null;
+    const diffSecs = Math.round((new Date(etaAt).getTime() - Date.now()) / 1000);
+    if (diffSecs <= 0) return "finishing";
+    if (diffSecs < 60) return `~${diffSecs}s left`;
+    return `~${Math.ceil(diffSecs / 60)} min left`;
+  };
+
   if (isLoading) {
     return (
       <Card className="bg-white rounded-xl shadow-sm border border-gray-200">
@@ -151,6 +163,7 @@ export default function ActiveJobsTable({ onViewJob }: ActiveJobsTableProps) {
                       <Progress value={job.progress || 0} className="w-full h-2" />
                       <span className="text-xs text-gray-500 mt-1 block">
                         {job.progress || 0}% - {job.status.replace('_', ' ')}
+                        {getTimeLeft(job.eta_at) && ` · ${getTimeLeft(job.eta_at)}`}
                       </span>
                     </div>
                   </td>
@@ -167,7 +180,7 @@ export default function ActiveJobsTable({ onViewJob }: ActiveJobsTableProps) {
                       <Eye className="w-4 h-4 mr-1" />
                       View
                     </Button>
-                    {!["completed", "failed"].includes(job.status) && (
+                    {!TERMINAL_STATUSES.includes(job.status) && (
                       <Button
                         variant="ghost"
                         size="sm"
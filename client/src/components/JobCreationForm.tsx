@@ -1,23 +1,58 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import { insertVideoJobSchema, type InsertVideoJob, type Song } from "@shared/schema";
+import {
+  insertVideoJobSchema,
+  AUDIO_TRANSITION_LIMITS,
+  LOUDNESS_TARGET_LIMITS,
+  MOTION_FRAME_RATE_LIMITS,
+  SLIDESHOW_LIMITS,
+  SONG_COUNT_LIMITS,
+  TARGET_DURATION_LIMITS,
+  type InsertVideoJob,
+  type NowPlaying,
+  type Song,
+  type Visualizer
+} from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
-import { CloudUpload, Music, Trash, Plus, Video } from "lucide-react";
+import { CloudUpload, ImageIcon, Music, Trash, Plus, Video } from "lucide-react";
+
+// How the frame around contained artwork is filled
+type BackgroundKind = "color" | "blur" | "gradient" | "image";
+type WatermarkCorner = "top_left" | "top_right" | "bottom_left" | "bottom_right";
+
+interface JobLimits {
+  min_songs: number;
+  max_songs: number;
+}
 
 export default function JobCreationForm() {
   const [songs, setSongs] = useState<Song[]>([]);
   const [thumbnailUrl, setThumbnailUrl] = useState("");
+  const [backgroundKind, setBackgroundKind] = useState<BackgroundKind>("color");
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [visualizer, setVisualizer] = useState<Visualizer | null>(null);
+  const [nowPlaying, setNowPlaying] = useState<NowPlaying | null>(null);
+  const [watermarkUrl, setWatermarkUrl] = useState("");
+  const [watermarkCorner, setWatermarkCorner] = useState<WatermarkCorner>("top_right");
+  const [showTitle, setShowTitle] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Server-configured song count limits
+  const { data: limits } = useQuery<JobLimits>({ queryKey: ["/api/limits"] });
+  const minSongs = limits?.min_songs ?? SONG_COUNT_LIMITS.min;
+  const maxSongs = limits?.max_songs ?? SONG_COUNT_LIMITS.max;
+
   const form = useForm<InsertVideoJob>({
     resolver: zodResolver(insertVideoJobSchema),
     defaultValues: {
@@ -25,7 +60,69 @@ export default function JobCreationForm() {
       title: "",
       channel_id: "",
       thumbnail_url: "",
-      songs: []
+      thumbnail_fit: "contain",
+      thumbnail_pad_color: "#000000",
+      songs: [],
+      loop_mode: "loop_to_duration",
+      crossfade_seconds: 0,
+      crossfade_curve: "tri",
+      gap_seconds: 0,
+      normalize_loudness: false,
+      strict_durations: false,
+      slide_transition: "cut",
+      slide_transition_seconds: 1,
+      motion: "none"
+    }
+  });
+  const loopMode = form.watch("loop_mode");
+  const normalizeLoudness = form.watch("normalize_loudness");
+  const thumbnailFit = form.watch("thumbnail_fit");
+  const slideTransition = form.watch("slide_transition");
+  const motion = form.watch("motion");
+  const hasSongImages = songs.some(song => song.image_url);
+
+  // Songs and thumbnail are edited outside the form fields; keep the form values in sync for validation
+  useEffect(() => {
+    form.setValue("songs", songs);
+  }, [form, songs]);
+
+  useEffect(() => {
+    form.setValue("thumbnail_url", thumbnailUrl);
+  }, [form, thumbnailUrl]);
+
+  // Release the previous preview image when it is replaced
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  // Artwork fields for the chosen fit and background
+  const artworkSettings = (data: InsertVideoJob) => {
+    const contained = data.thumbnail_fit !== "cover";
+    return {
+      thumbnail_fit: data.thumbnail_fit,
+      thumbnail_pad_color: contained && backgroundKind === "color" ? data.thumbnail_pad_color : undefined,
+      background: contained && (backgroundKind === "blur" || backgroundKind === "gradient") ? backgroundKind : undefined,
+      background_url: contained && backgroundKind === "image" ? data.background_url : undefined
+    };
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/preview/frame", {
+        thumbnail_url: thumbnailUrl,
+        ...artworkSettings(form.getValues())
+      });
+      return URL.createObjectURL(await response.blob());
+    },
+    onSuccess: (url: string) => setPreviewUrl(url),
+    onError: (error: any) => {
+      toast({
+        title: "Preview Failed",
+        description: error.message || "Could not render the preview frame",
+        variant: "destructive"
+      });
     }
   });
 
@@ -49,6 +146,8 @@ export default function JobCreationForm() {
       form.reset();
       setSongs([]);
       setThumbnailUrl("");
+      setBackgroundKind("color");
+      setPreviewUrl(null);
       queryClient.invalidateQueries({ queryKey: ["/api/video-jobs"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
     },
@@ -62,10 +161,10 @@ export default function JobCreationForm() {
   });
 
   const onSubmit = (data: InsertVideoJob) => {
-    if (songs.length !== 10) {
+    if (songs.length < minSongs || songs.length > maxSongs) {
       toast({
         title: "Invalid Song Count",
-        description: "Exactly 10 songs are required.",
+        description: `Between ${minSongs} and ${maxSongs} songs are required.`,
         variant: "destructive"
       });
       return;
@@ -76,17 +175,42 @@ export default function JobCreationForm() {
       title: data.title,
       channel_id: data.channel_id,
       thumbnail_url: thumbnailUrl,
-      songs: songs
+      ...artworkSettings(data),
+      songs: songs,
+      target_duration_seconds: data.target_duration_seconds,
+      loop_mode: data.loop_mode,
+      loop_count: data.loop_mode === "loop_n_times" ? data.loop_count : undefined,
+      crossfade_seconds: data.crossfade_seconds,
+      crossfade_curve: data.crossfade_curve,
+      gap_seconds: data.gap_seconds,
+      normalize_loudness: data.normalize_loudness,
+      loudness_target_lufs: data.normalize_loudness ? data.loudness_target_lufs : undefined,
+      strict_durations: data.strict_durations,
+      slide_transition: hasSongImages ? data.slide_transition : undefined,
+      slide_transition_seconds: hasSongImages && data.slide_transition !== "cut" ? data.slide_transition_seconds : undefined,
+      motion: data.motion,
+      motion_frame_rate: data.motion !== "none" ? data.motion_frame_rate : undefined,
+      visualizer,
+      now_playing: nowPlaying,
+      // Left unset, the channel's branding profile applies
+      overlays: watermarkUrl || showTitle
+        ? {
+          watermark: watermarkUrl ? { url: watermarkUrl, corner: watermarkCorner, opacity: 0.8, scale: 0.12 } : null,
+          title: showTitle
+            ? { font: "lato", font_size: 56, color: "#ffffff", box: false, box_color: "#000000", box_opacity: 0.5, position: "top_left" }
+            : null
+        }
+        : undefined
     };
 
     createJobMutation.mutate(jobData);
   };
 
   const addSong = () => {
-    if (songs.length >= 10) {
+    if (songs.length >= maxSongs) {
       toast({
         title: "Maximum Songs Reached",
-        description: "You can only add up to 10 songs.",
+        description: `You can only add up to ${maxSongs} songs.`,
         variant: "destructive"
       });
       return;
@@ -94,6 +218,9 @@ export default function JobCreationForm() {
 
     const fileUrl = prompt("Enter song URL (MP3/WAV):");
     const lengthStr = prompt("Enter song duration in seconds:");
+    const artist = prompt("Enter artist name:") ?? "";
+    const title = prompt("Enter song title:") ?? "";
+    const imageUrl = prompt("Enter image URL shown during this song (optional):") ?? "";
 
     if (fileUrl && lengthStr) {
       const length = parseInt(lengthStr);
@@ -108,7 +235,10 @@ export default function JobCreationForm() {
 
       const newSong: Song = {
         file_url: fileUrl,
-        length
+        length,
+        artist,
+        title,
+        image_url: imageUrl || undefined
       };
 
       setSongs(prev => [...prev, newSong]);
@@ -185,6 +315,212 @@ export default function JobCreationForm() {
               />
             </div>
 
+            {/* Duration & Looping */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <FormField
+                control={form.control}
+                name="target_duration_seconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-gray-700">Target Duration (minutes)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={TARGET_DURATION_LIMITS.min / 60}
+                        max={TARGET_DURATION_LIMITS.max / 60}
+                        placeholder="Server default"
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                        value={field.value ? field.value / 60 : ""}
+                        onChange={(e) => field.onChange(e.target.value ? Math.round(Number(e.target.value) * 60) : undefined)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="loop_mode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-gray-700">Loop Mode</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="w-full px-4 py-3 border border-gray-300 rounded-lg">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="loop_to_duration">Loop to duration</SelectItem>
+                        <SelectItem value="play_once">Play once</SelectItem>
+                        <SelectItem value="loop_n_times">Loop N times</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {loopMode === "loop_n_times" && (
+                <FormField
+                  control={form.control}
+                  name="loop_count"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-gray-700">Loop Count</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={100}
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : undefined)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            {/* Audio Transitions */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <FormField
+                control={form.control}
+                name="crossfade_seconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-gray-700">Crossfade (seconds)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={AUDIO_TRANSITION_LIMITS.maxCrossfadeSeconds}
+                        step={0.5}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                        value={field.value ?? 0}
+                        onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="crossfade_curve"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-gray-700">Crossfade Curve</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="w-full px-4 py-3 border border-gray-300 rounded-lg">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="tri">Linear</SelectItem>
+                        <SelectItem value="qsin">Quarter sine</SelectItem>
+                        <SelectItem value="esin">Exponential sine</SelectItem>
+                        <SelectItem value="hsin">Half sine</SelectItem>
+                        <SelectItem value="log">Logarithmic</SelectItem>
+                        <SelectItem value="par">Parabola</SelectItem>
+                        <SelectItem value="exp">Exponential</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="gap_seconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-gray-700">Gap (seconds)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={AUDIO_TRANSITION_LIMITS.maxGapSeconds}
+                        step={0.5}
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                        value={field.value ?? 0}
+                        onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Loudness Normalization */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <FormField
+                control={form.control}
+                name="normalize_loudness"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-gray-700">Normalize Loudness</FormLabel>
+                    <div className="flex items-center h-12">
+                      <FormControl>
+                        <Switch checked={field.value ?? false} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {normalizeLoudness && (
+                <FormField
+                  control={form.control}
+                  name="loudness_target_lufs"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-gray-700">Target Loudness (LUFS)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={LOUDNESS_TARGET_LIMITS.min}
+                          max={LOUDNESS_TARGET_LIMITS.max}
+                          step={0.5}
+                          placeholder="Server default"
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : undefined)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="strict_durations"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-gray-700">Strict Song Lengths</FormLabel>
+                    <div className="flex items-center h-12 gap-3">
+                      <FormControl>
+                        <Switch checked={field.value ?? false} onCheckedChange={field.onChange} />
+                      </FormControl>
+                      <span className="text-sm text-gray-500">Fail if a song's length is wrong</span>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             {/* Thumbnail Upload */}
             <div>
               <Label className="block text-sm font-medium text-gray-700 mb-2">Thumbnail Image URL</Label>
@@ -195,26 +531,131 @@ export default function JobCreationForm() {
                 onChange={(e) => setThumbnailUrl(e.target.value)}
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
               />
-              <p className="text-sm text-gray-500 mt-2">PNG, JPG. Recommended: 1920x1080</p>
+              <p className="text-sm text-gray-500 mt-2">PNG, JPG, WebP, AVIF, GIF (first frame) or BMP. Recommended: 1920x1080</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <FormField
+                control={form.control}
+                name="thumbnail_fit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-gray-700">Thumbnail Fit</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value === "cover" ? "cover" : "contain"}>
+                      <FormControl>
+                        <SelectTrigger className="w-full px-4 py-3 border border-gray-300 rounded-lg">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="contain">Fit over background</SelectItem>
+                        <SelectItem value="cover">Fill (crop)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {thumbnailFit !== "cover" && (
+                <div>
+                  <Label className="block text-sm font-medium text-gray-700 mb-2">Background</Label>
+                  <Select onValueChange={(value) => setBackgroundKind(value as BackgroundKind)} value={backgroundKind}>
+                    <SelectTrigger className="w-full px-4 py-3 border border-gray-300 rounded-lg">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="color">Solid color</SelectItem>
+                      <SelectItem value="blur">Blurred artwork</SelectItem>
+                      <SelectItem value="gradient">Gradient from artwork</SelectItem>
+                      <SelectItem value="image">Image</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {thumbnailFit !== "cover" && backgroundKind === "color" && (
+                <FormField
+                  control={form.control}
+                  name="thumbnail_pad_color"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-gray-700">Background Color</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="color"
+                          className="w-full h-12 px-2 py-1 border border-gray-300 rounded-lg"
+                          value={field.value ?? "#000000"}
+                          onChange={(e) => field.onChange(e.target.value)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {thumbnailFit !== "cover" && backgroundKind === "image" && (
+                <FormField
+                  control={form.control}
+                  name="background_url"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-gray-700">Background Image URL</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="url"
+                          placeholder="Enter background image URL"
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value || undefined)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            {/* Frame Preview */}
+            <div className="space-y-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => previewMutation.mutate()}
+                disabled={!thumbnailUrl || previewMutation.isPending}
+              >
+                <ImageIcon className="mr-2" size={16} />
+                {previewMutation.isPending ? "Rendering..." : "Preview Frame"}
+              </Button>
+              {previewUrl && (
+                <img src={previewUrl} alt="Video frame preview" className="w-full rounded-lg border border-gray-200" />
+              )}
             </div>
 
             {/* Songs Section */}
             <div>
               <div className="flex items-center justify-between mb-4">
-                <Label className="text-sm font-medium text-gray-700">Songs (10 required)</Label>
-                <span className="text-sm text-gray-500">{songs.length} of 10 added</span>
+                <Label className="text-sm font-medium text-gray-700">Songs ({minSongs}–{maxSongs})</Label>
+                <span className="text-sm text-gray-500">{songs.length} of {maxSongs} added</span>
               </div>
               
               {/* Song List */}
-              <div className="space-y-3 mb-4">
+              <div className="space-y-3 mb-4 max-h-96 overflow-y-auto">
                 {songs.map((song, index) => (
                   <div key={index} className="flex items-center p-4 bg-gray-50 rounded-lg border border-gray-200">
                     <div className="w-12 h-12 bg-primary-100 rounded-lg flex items-center justify-center mr-4">
                       <Music className="text-primary-600" size={20} />
                     </div>
                     <div className="flex-1">
-                      <p className="font-medium text-gray-900">Song {index + 1}</p>
-                      <p className="text-sm text-gray-500">{Math.floor(song.length / 60)}:{(song.length % 60).toString().padStart(2, '0')} - MP3</p>
+                      <p className="font-medium text-gray-900">
+                        {index + 1}. {song.artist || song.title ? `${song.artist} – ${song.title}` : `Song ${index + 1}`}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {Math.floor(song.length / 60)}:{(song.length % 60).toString().padStart(2, '0')}
+                        {song.image_url && " · own image"}
+                      </p>
                     </div>
                     <Button
                       type="button"
@@ -234,7 +675,7 @@ export default function JobCreationForm() {
                 type="button"
                 variant="outline"
                 onClick={addSong}
-                disabled={songs.length >= 10}
+                disabled={songs.length >= maxSongs}
                 className="w-full py-3 border-2 border-dashed border-gray-300 rounded-lg text-gray-500 hover:border-primary-400 hover:text-primary-600 transition-colors"
               >
                 <Plus className="w-4 h-4 mr-2" />
@@ -242,11 +683,358 @@ export default function JobCreationForm() {
               </Button>
             </div>
 
+            {/* Ken Burns motion */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FormField
+                control={form.control}
+                name="motion"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-gray-700">Motion</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value ?? "none"}>
+                      <FormControl>
+                        <SelectTrigger className="w-full px-4 py-3 border border-gray-300 rounded-lg">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">None (fastest)</SelectItem>
+                        <SelectItem value="zoom_in">Slow zoom in</SelectItem>
+                        <SelectItem value="zoom_out">Slow zoom out</SelectItem>
+                        <SelectItem value="pan_left">Pan left</SelectItem>
+                        <SelectItem value="pan_right">Pan right</SelectItem>
+                        <SelectItem value="pan_up">Pan up</SelectItem>
+                        <SelectItem value="pan_down">Pan down</SelectItem>
+                        <SelectItem value="random">Random per image</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {motion !== "none" && (
+                      <p className="text-sm text-gray-500">Every frame is rendered: expect roughly as long to encode as the video lasts.</p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {motion !== "none" && (
+                <FormField
+                  control={form.control}
+                  name="motion_frame_rate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-gray-700">Frame Rate (fps)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={MOTION_FRAME_RATE_LIMITS.min}
+                          max={MOTION_FRAME_RATE_LIMITS.max}
+                          placeholder="Server default"
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : undefined)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            {/* Audio Visualizer */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <Label className="block text-sm font-medium text-gray-700 mb-2">Visualizer</Label>
+                <Select
+                  onValueChange={(value) => setVisualizer(value === "none"
+                    ? null
+                    : { color: "#ffffff", position: "bottom", size: 0.25, opacity: 0.8, ...visualizer, type: value as Visualizer["type"] })}
+                  value={visualizer?.type ?? "none"}
+                >
+                  <SelectTrigger className="w-full px-4 py-3 border border-gray-300 rounded-lg">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="waveform">Waveform</SelectItem>
+                    <SelectItem value="spectrum">Spectrum bars</SelectItem>
+                    <SelectItem value="circular">Circular</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {visualizer && (
+                <>
+                  <div>
+                    <Label className="block text-sm font-medium text-gray-700 mb-2">Visualizer Position</Label>
+                    <Select
+                      onValueChange={(value) => setVisualizer({ ...visualizer, position: value as Visualizer["position"] })}
+                      value={visualizer.position}
+                    >
+                      <SelectTrigger className="w-full px-4 py-3 border border-gray-300 rounded-lg">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="top">Top</SelectItem>
+                        <SelectItem value="center">Center</SelectItem>
+                        <SelectItem value="bottom">Bottom</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div>
+                    <Label className="block text-sm font-medium text-gray-700 mb-2">Visualizer Color</Label>
+                    <Input
+                      type="color"
+                      className="w-full h-12 px-2 py-1 border border-gray-300 rounded-lg"
+                      value={visualizer.color}
+                      onChange={(e) => setVisualizer({ ...visualizer, color: e.target.value })}
+                    />
+                  </div>
+
+                  <div>
+                    <Label className="block text-sm font-medium text-gray-700 mb-2">Visualizer Height (%)</Label>
+                    <Input
+                      type="number"
+                      min={5}
+                      max={100}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                      value={Math.round(visualizer.size * 100)}
+                      onChange={(e) => setVisualizer({ ...visualizer, size: Math.min(Math.max(Number(e.target.value) || 25, 5), 100) / 100 })}
+                    />
+                  </div>
+
+                  <div>
+                    <Label className="block text-sm font-medium text-gray-700 mb-2">Visualizer Opacity (%)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                      value={Math.round(visualizer.opacity * 100)}
+                      onChange={(e) => setVisualizer({ ...visualizer, opacity: Math.min(Math.max(Number(e.target.value) || 0, 0), 100) / 100 })}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Now Playing text */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <Label className="block text-sm font-medium text-gray-700 mb-2">Now Playing Text</Label>
+                <div className="flex items-center h-12 gap-3">
+                  <Switch
+                    checked={nowPlaying !== null}
+                    onCheckedChange={(checked) => setNowPlaying(checked
+                      ? {
+                        font: "lato",
+                        font_size: 42,
+                        color: "#ffffff",
+                        box: true,
+                        box_color: "#000000",
+                        box_opacity: 0.5,
+                        position: "bottom_left",
+                        fade_seconds: 0.5
+                      }
+                      : null)}
+                  />
+                  <span className="text-sm text-gray-500">Show "Artist – Title" during each song</span>
+                </div>
+              </div>
+
+              {nowPlaying && (
+                <>
+                  <div>
+                    <Label className="block text-sm font-medium text-gray-700 mb-2">Text Position</Label>
+                    <Select
+                      onValueChange={(value) => setNowPlaying({ ...nowPlaying, position: value as NowPlaying["position"] })}
+                      value={nowPlaying.position}
+                    >
+                      <SelectTrigger className="w-full px-4 py-3 border border-gray-300 rounded-lg">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="top_left">Top left</SelectItem>
+                        <SelectItem value="top_center">Top center</SelectItem>
+                        <SelectItem value="top_right">Top right</SelectItem>
+                        <SelectItem value="bottom_left">Bottom left</SelectItem>
+                        <SelectItem value="bottom_center">Bottom center</SelectItem>
+                        <SelectItem value="bottom_right">Bottom right</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div>
+                    <Label className="block text-sm font-medium text-gray-700 mb-2">Font</Label>
+                    <Select
+                      onValueChange={(value) => setNowPlaying({ ...nowPlaying, font: value as NowPlaying["font"] })}
+                      value={nowPlaying.font}
+                    >
+                      <SelectTrigger className="w-full px-4 py-3 border border-gray-300 rounded-lg">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="lato">Lato</SelectItem>
+                        <SelectItem value="lato_light">Lato Light</SelectItem>
+                        <SelectItem value="source_code_pro">Source Code Pro</SelectItem>
+                        <SelectItem value="source_code_pro_bold">Source Code Pro Bold</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div>
+                    <Label className="block text-sm font-medium text-gray-700 mb-2">Font Size</Label>
+                    <Input
+                      type="number"
+                      min={12}
+                      max={120}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                      value={nowPlaying.font_size}
+                      onChange={(e) => setNowPlaying({ ...nowPlaying, font_size: Math.min(Math.max(Math.round(Number(e.target.value)) || 42, 12), 120) })}
+                    />
+                  </div>
+
+                  <div>
+                    <Label className="block text-sm font-medium text-gray-700 mb-2">Text Color</Label>
+                    <Input
+                      type="color"
+                      className="w-full h-12 px-2 py-1 border border-gray-300 rounded-lg"
+                      value={nowPlaying.color}
+                      onChange={(e) => setNowPlaying({ ...nowPlaying, color: e.target.value })}
+                    />
+                  </div>
+
+                  <div>
+                    <Label className="block text-sm font-medium text-gray-700 mb-2">Background Box</Label>
+                    <div className="flex items-center h-12 gap-3">
+                      <Switch
+                        checked={nowPlaying.box}
+                        onCheckedChange={(checked) => setNowPlaying({ ...nowPlaying, box: checked })}
+                      />
+                      {nowPlaying.box && (
+                        <Input
+                          type="color"
+                          className="w-16 h-10 px-1 py-1 border border-gray-300 rounded-lg"
+                          value={nowPlaying.box_color}
+                          onChange={(e) => setNowPlaying({ ...nowPlaying, box_color: e.target.value })}
+                        />
+                      )}
+                    </div>
+                  </div>
+
+                  <div>
+                    <Label className="block text-sm font-medium text-gray-700 mb-2">Fade (seconds)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={5}
+                      step={0.5}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                      value={nowPlaying.fade_seconds}
+                      onChange={(e) => setNowPlaying({ ...nowPlaying, fade_seconds: Math.min(Math.max(Number(e.target.value) || 0, 0), 5) })}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Branding */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <Label className="block text-sm font-medium text-gray-700 mb-2">Watermark Image URL</Label>
+                <Input
+                  type="url"
+                  placeholder="Channel branding if empty"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  value={watermarkUrl}
+                  onChange={(e) => setWatermarkUrl(e.target.value)}
+                />
+              </div>
+
+              {watermarkUrl && (
+                <div>
+                  <Label className="block text-sm font-medium text-gray-700 mb-2">Watermark Corner</Label>
+                  <Select onValueChange={(value) => setWatermarkCorner(value as WatermarkCorner)} value={watermarkCorner}>
+                    <SelectTrigger className="w-full px-4 py-3 border border-gray-300 rounded-lg">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="top_left">Top left</SelectItem>
+                      <SelectItem value="top_right">Top right</SelectItem>
+                      <SelectItem value="bottom_left">Bottom left</SelectItem>
+                      <SelectItem value="bottom_right">Bottom right</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div>
+                <Label className="block text-sm font-medium text-gray-700 mb-2">Title Text</Label>
+                <div className="flex items-center h-12 gap-3">
+                  <Switch checked={showTitle} onCheckedChange={setShowTitle} />
+                  <span className="text-sm text-gray-500">Burn the video title in</span>
+                </div>
+              </div>
+            </div>
+
+            {/* Slideshow transitions, for songs with their own images */}
+            {hasSongImages && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="slide_transition"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium text-gray-700">Image Transition</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value ?? "cut"}>
+                        <FormControl>
+                          <SelectTrigger className="w-full px-4 py-3 border border-gray-300 rounded-lg">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="cut">Cut (fastest)</SelectItem>
+                          <SelectItem value="crossfade">Crossfade</SelectItem>
+                          <SelectItem value="slide">Slide</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {slideTransition !== "cut" && (
+                  <FormField
+                    control={form.control}
+                    name="slide_transition_seconds"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-sm font-medium text-gray-700">Transition (seconds)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0.1}
+                            max={SLIDESHOW_LIMITS.maxTransitionSeconds}
+                            step={0.5}
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                            value={field.value ?? 1}
+                            onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : 1)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+            )}
+
             {/* Submit Button */}
             <div className="flex justify-end pt-6 border-t border-gray-200">
               <Button 
                 type="submit" 
-                disabled={createJobMutation.isPending || songs.length !== 10 || !thumbnailUrl}
+                disabled={createJobMutation.isPending || songs.length < minSongs || songs.length > maxSongs || !thumbnailUrl}
                 className="bg-primary-500 hover:bg-primary-600 text-white px-8 py-3 rounded-lg font-medium transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <Video className="w-4 h-4 mr-2" />
@@ -2,17 +2,39 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
-import { Check, Clock, Download, RefreshCw, AlertCircle } from "lucide-react";
-import type { VideoJob } from "@shared/schema";
+import { Check, Clock, Download, RefreshCw, AlertCircle, Ban } from "lucide-react";
+import { CUE_MAX_TRACKS } from "@shared/schema";
+import type { JobWarning, NowPlaying, Overlays, SlideshowImage, Song, SongLoudness, SongProbe, TracklistEntry, VideoJob, Visualizer } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { POLL_INTERVALS } from "@/hooks/use-job-events";
 
 interface JobDetailsModalProps {
   job: VideoJob | null;
   isOpen: boolean;
+  live: boolean;
   onClose: () => void;
 }
 
-export default function JobDetailsModal({ job, isOpen, onClose }: JobDetailsModalProps) {
+export default function JobDetailsModal({ job: selectedJob, isOpen, live, onClose }: JobDetailsModalProps) {
+  // Kept current by the event stream (or polling while it is down)
+  const { data: liveJob } = useQuery<VideoJob>({
+    queryKey: [`/api/video-jobs/${selectedJob?.id}`],
+    enabled: !!selectedJob && isOpen,
+    initialData: selectedJob ?? undefined,
+    refetchInterval: live ? false : POLL_INTERVALS.job,
+  });
+  const job = liveJob ?? selectedJob;
+
   if (!job) return null;
+  const songs = job.songs as Song[];
+  const loudness = (job.loudness as SongLoudness[] | null) ?? [];
+  const audioProbes = (job.audio_probes as SongProbe[] | null) ?? [];
+  const tracklist = (job.tracklist as TracklistEntry[] | null) ?? [];
+  const warnings = (job.warnings as JobWarning[] | null) ?? [];
+  const images = (job.images as SlideshowImage[] | null) ?? [];
+  const visualizer = job.visualizer as Visualizer | null;
+  const nowPlaying = job.now_playing as NowPlaying | null;
+  const overlays = job.overlays as Overlays | null;
 
   const getStatusBadge = (status: string) => {
     const statusConfig = {
@@ -21,7 +43,8 @@ export default function JobDetailsModal({ job, isOpen, onClose }: JobDetailsModa
       processing_audio: { variant: "default" as const, text: "Processing Audio", icon: RefreshCw },
       creating_video: { variant: "default" as const, text: "Creating Video", icon: RefreshCw },
       completed: { variant: "default" as const, text: "Completed", icon: Check },
-      failed: { variant: "destructive" as const, text: "Failed", icon: AlertCircle }
+      failed: { variant: "destructive" as const, text: "Failed", icon: AlertCircle },
+      cancelled: { variant: "outline" as const, text: "Cancelled", icon: Ban }
     };
 
     const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.queued;
@@ -76,6 +99,93 @@ export default function JobDetailsModal({ job, isOpen, onClose }: JobDetailsModa
               <label className="block text-sm font-medium text-gray-700 mb-1">Channel ID</label>
               <p className="text-sm text-gray-900">{job.channel_id}</p>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Target Duration</label>
+              <p className="text-sm text-gray-900">
+                {job.target_duration_seconds ? `${Math.round(job.target_duration_seconds / 60)} min` : "Server default"}
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Loop Mode</label>
+              <p className="text-sm text-gray-900">
+                {job.loop_mode.replace(/_/g, ' ')}
+                {job.loop_mode === "loop_n_times" && job.loop_count ? ` (${job.loop_count}×)` : ""}
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Transitions</label>
+              <p className="text-sm text-gray-900">
+                {job.crossfade_seconds > 0
+                  ? `${job.crossfade_seconds}s crossfade (${job.crossfade_curve})`
+                  : job.gap_seconds > 0
+                    ? `${job.gap_seconds}s gap`
+                    : "Hard cut"}
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Loudness</label>
+              <p className="text-sm text-gray-900">
+                {job.normalize_loudness ? `Normalized to ${job.loudness_target_lufs} LUFS` : "Not normalized"}
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Artwork</label>
+              <p className="text-sm text-gray-900">
+                {job.thumbnail_fit === "cover"
+                  ? "Cropped to fill"
+                  : job.background_url
+                    ? "Over background image"
+                    : job.background
+                      ? `Over ${job.background.replace("solid:", "")} background`
+                      : job.thumbnail_fit === "blur"
+                        ? "Over blur background"
+                        : `Over ${job.thumbnail_pad_color} background`}
+              </p>
+            </div>
+            {visualizer && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Visualizer</label>
+                <p className="text-sm text-gray-900">
+                  {visualizer.type}, {visualizer.position}, {visualizer.color}
+                </p>
+              </div>
+            )}
+            {(overlays?.watermark || overlays?.title) && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Branding</label>
+                <p className="text-sm text-gray-900">
+                  {[
+                    overlays.watermark && `Watermark ${overlays.watermark.corner.replace("_", " ")}`,
+                    overlays.title && `Title ${overlays.title.position.replace("_", " ")}`
+                  ].filter(Boolean).join(", ")}
+                </p>
+              </div>
+            )}
+            {nowPlaying && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Now Playing Text</label>
+                <p className="text-sm text-gray-900">
+                  {nowPlaying.font} {nowPlaying.font_size}px, {nowPlaying.position.replace("_", " ")}
+                </p>
+              </div>
+            )}
+            {job.motion !== "none" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Motion</label>
+                <p className="text-sm text-gray-900">
+                  {job.motion.replace("_", " ")}{job.motion_frame_rate ? ` at ${job.motion_frame_rate} fps` : ""}
+                </p>
+              </div>
+            )}
+            {(images.length > 0 || songs.some(song => song.image_url)) && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Slideshow</label>
+                <p className="text-sm text-gray-900">
+                  {images.length > 0 ? `${images.length} images` : "Per-song images"}
+                  {job.slide_transition === "cut" ? ", hard cuts" : `, ${job.slide_transition_seconds}s ${job.slide_transition}`}
+                </p>
+              </div>
+            )}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Created</label>
               <p className="text-sm text-gray-900">{formatDate(job.created_at)}</p>
@@ -93,7 +203,10 @@ export default function JobDetailsModal({ job, isOpen, onClose }: JobDetailsModa
               <Progress value={job.progress || 0} className="w-full" />
               <div className="flex justify-between text-sm text-gray-600">
                 <span>{job.progress || 0}% complete</span>
-                <span>{job.status.replace('_', ' ')}</span>
+                <span>
+                  {job.status.replace('_', ' ')}
+                  {job.eta_at && ` · ETA ${new Date(job.eta_at).toLocaleTimeString()}`}
+                </span>
               </div>
             </div>
           </div>
@@ -134,15 +247,33 @@ export default function JobDetailsModal({ job, isOpen, onClose }: JobDetailsModa
 
           {/* Songs */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Songs ({job.songs.length})</label>
-            <div className="bg-gray-50 rounded-lg p-4 max-h-48 overflow-y-auto">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Songs ({songs.length})</label>
+            <div className="bg-gray-50 rounded-lg p-4 max-h-64 overflow-y-auto">
               <div className="space-y-2">
-                {job.songs.map((song: any, index: number) => (
-                  <div key={index} className="flex justify-between items-center text-sm">
-                    <span className="text-gray-900 font-medium">Song {index + 1}</span>
-                    <span className="text-gray-500">{Math.floor(song.length / 60)}:{(song.length % 60).toString().padStart(2, '0')}</span>
-                  </div>
-                ))}
+                {songs.map((song, index) => {
+                  const songLoudness = loudness.find(entry => entry.song_index === index);
+                  const songProbe = audioProbes.find(entry => entry.song_index === index);
+                  return (
+                    <div key={index} className="flex justify-between items-center text-sm gap-4">
+                      <span className="text-gray-900 font-medium truncate">
+                        {index + 1}. {song.artist || song.title ? `${song.artist} – ${song.title}` : `Song ${index + 1}`}
+                      </span>
+                      <span className="text-gray-500 shrink-0">
+                        {songProbe && (
+                          <span className="mr-3" title={`${songProbe.codec}, ${songProbe.channels} channel(s)`}>
+                            {songProbe.format.toUpperCase()} {(songProbe.sample_rate / 1000).toFixed(1)} kHz
+                          </span>
+                        )}
+                        {songLoudness && (
+                          <span className="mr-3" title={`True peak ${songLoudness.input_tp} → ${songLoudness.output_tp} dBTP`}>
+                            {songLoudness.input_i.toFixed(1)} → {songLoudness.output_i.toFixed(1)} LUFS
+                          </span>
+                        )}
+                        {Math.floor(song.length / 60)}:{Math.round(song.length % 60).toString().padStart(2, '0')}
+                      </span>
+                    </div>
+                  );
+                })}
               </div>
             </div>
           </div>
@@ -170,6 +301,44 @@ export default function JobDetailsModal({ job, isOpen, onClose }: JobDetailsModa
             </div>
           )}
 
+          {/* Tracklist exports (once the playlist is planned) */}
+          {tracklist.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Tracklist ({tracklist.length} tracks)</label>
+              <div className="flex flex-wrap gap-2">
+                {[
+                  { format: "youtube", label: "YouTube" },
+                  { format: "csv", label: "CSV" },
+                  { format: "cue", label: "CUE", disabled: tracklist.length > CUE_MAX_TRACKS },
+                  { format: "json", label: "JSON" }
+                ].map(({ format, label, disabled }) => (
+                  <Button
+                    key={format}
+                    size="sm"
+                    variant="outline"
+                    disabled={disabled}
+                    onClick={() => window.open(`/api/video-jobs/${job.id}/tracklist?format=${format}`, '_blank')}
+                  >
+                    <Download className="w-4 h-4 mr-1" />
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Warnings */}
+          {warnings.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Warnings ({warnings.length})</label>
+              <ul className="p-3 bg-yellow-50 border border-yellow-200 rounded text-sm text-yellow-800 space-y-1">
+                {warnings.map((warning, index) => (
+                  <li key={index}>{warning.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Error Message (if failed) */}
           {job.status === "failed" && job.error_message && (
             <div>
@@ -1,11 +1,17 @@
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Play, Check, Clock, AlertTriangle } from "lucide-react";
+import { POLL_INTERVALS } from "@/hooks/use-job-events";
 
-export default function StatsCards() {
+interface StatsCardsProps {
+  live: boolean;
+}
+
+export default function StatsCards({ live }: StatsCardsProps) {
   const { data: stats, isLoading } = useQuery({
     queryKey: ["/api/stats"],
-    refetchInterval: 5000, // Refresh every 5 seconds
+    // Pushed over the event stream; poll only while it is disconnected
+    refetchInterval: live ? false : POLL_INTERVALS.stats,
   });
 
   if (isLoading) {
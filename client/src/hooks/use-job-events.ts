@@ -0,0 +1,69 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { TERMINAL_STATUSES, type VideoJob } from "@shared/schema";
+
+// Polling intervals used while the event stream is down
+export const POLL_INTERVALS = {
+  activeJobs: 2000,
+  stats: 5000,
+  job: 2000,
+};
+
+function upsertJob(jobs: VideoJob[] | undefined, job: VideoJob): VideoJob[] | undefined {
+  if (!jobs) return jobs;
+  const index = jobs.findIndex(existing => existing.id === job.id);
+  if (index === -1) return [job, ...jobs];
+  const next = [...jobs];
+  next[index] = job;
+  return next;
+}
+
+function removeJob(jobs: VideoJob[] | undefined, jobId: string): VideoJob[] | undefined {
+  return jobs?.filter(job => job.id !== jobId);
+}
+
+// Keeps the dashboard's React Query caches in sync with /api/events.
+// Returns whether the stream is connected so callers can fall back to polling.
+export function useJobEvents() {
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    const source = new EventSource("/api/events");
+
+    source.onopen = () => {
+      setConnected(true);
+      // Catch up on anything missed while disconnected
+      queryClient.invalidateQueries({ queryKey: ["/api/video-jobs/active"] });
+    };
+
+    source.onerror = () => {
+      // EventSource reconnects on its own; poll until it does
+      setConnected(false);
+    };
+
+    source.addEventListener("job", (event) => {
+      const job: VideoJob = JSON.parse((event as MessageEvent).data);
+      queryClient.setQueryData([`/api/video-jobs/${job.id}`], job);
+      queryClient.setQueryData<VideoJob[]>(["/api/video-jobs"], jobs => upsertJob(jobs, job));
+      queryClient.setQueryData<VideoJob[]>(["/api/video-jobs/active"], jobs =>
+        TERMINAL_STATUSES.includes(job.status) ? removeJob(jobs, job.id) : upsertJob(jobs, job)
+      );
+    });
+
+    source.addEventListener("deleted", (event) => {
+      const { id } = JSON.parse((event as MessageEvent).data);
+      queryClient.removeQueries({ queryKey: [`/api/video-jobs/${id}`] });
+      queryClient.setQueryData<VideoJob[]>(["/api/video-jobs"], jobs => removeJob(jobs, id));
+      queryClient.setQueryData<VideoJob[]>(["/api/video-jobs/active"], jobs => removeJob(jobs, id));
+    });
+
+    source.addEventListener("stats", (event) => {
+      queryClient.setQueryData(["/api/stats"], JSON.parse((event as MessageEvent).data));
+    });
+
+    return () => source.close();
+  }, [queryClient]);
+
+  return { connected };
+}
@@ -7,10 +7,12 @@ import JobDetailsModal from "@/components/JobDetailsModal";
 import { Button } from "@/components/ui/button";
 import { Clock, Plus } from "lucide-react";
 import type { VideoJob } from "@shared/schema";
+import { useJobEvents } from "@/hooks/use-job-events";
 
 export default function Dashboard() {
   const [selectedJob, setSelectedJob] = useState<VideoJob | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const { connected: live } = useJobEvents();
   const [currentTime, setCurrentTime] = useState(new Date().toLocaleTimeString('en-US', {
     hour: 'numeric',
     minute: '2-digit',
@@ -68,7 +70,7 @@ export default function Dashboard() {
 
         {/* Main Content */}
         <main className="flex-1 overflow-y-auto p-6">
-          <StatsCards />
+          <StatsCards live={live} />
           
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8">
             <div className="lg:col-span-2">
@@ -122,13 +124,14 @@ export default function Dashboard() {
             </div>
           </div>
 
-          <ActiveJobsTable onViewJob={handleViewJob} />
+          <ActiveJobsTable live={live} onViewJob={handleViewJob} />
         </main>
       </div>
 
       <JobDetailsModal 
         job={selectedJob} 
         isOpen={isModalOpen} 
+        live={live}
         onClose={handleCloseModal} 
       />
     </div>
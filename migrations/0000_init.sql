@@ -0,0 +1,16 @@
+CREATE TABLE "video_jobs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"video_creation_id" text NOT NULL,
+	"title" text NOT NULL,
+	"channel_id" text NOT NULL,
+	"thumbnail_url" text NOT NULL,
+	"songs" jsonb NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"progress" integer DEFAULT 0,
+	"video_url" text,
+	"error_message" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"completed_at" timestamp,
+	"failed_at" timestamp
+);
@@ -0,0 +1 @@
+ALTER TABLE "video_jobs" ADD COLUMN "cancelled_at" timestamp;
\ No newline at end of file
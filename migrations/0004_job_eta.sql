@@ -0,0 +1 @@
+ALTER TABLE "video_jobs" ADD COLUMN "eta_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "video_jobs" ADD COLUMN "target_duration_seconds" integer;--> statement-breakpoint
+ALTER TABLE "video_jobs" ADD COLUMN "loop_mode" text DEFAULT 'loop_to_duration' NOT NULL;--> statement-breakpoint
+ALTER TABLE "video_jobs" ADD COLUMN "loop_count" integer;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "video_jobs" ADD COLUMN "crossfade_seconds" real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "video_jobs" ADD COLUMN "crossfade_curve" text DEFAULT 'tri' NOT NULL;--> statement-breakpoint
+ALTER TABLE "video_jobs" ADD COLUMN "gap_seconds" real DEFAULT 0 NOT NULL;
\ No newline at end of file
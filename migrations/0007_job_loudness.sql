@@ -0,0 +1,3 @@
+ALTER TABLE "video_jobs" ADD COLUMN "normalize_loudness" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "video_jobs" ADD COLUMN "loudness_target_lufs" real;--> statement-breakpoint
+ALTER TABLE "video_jobs" ADD COLUMN "loudness" jsonb;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "webhook_deliveries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"job_id" text NOT NULL,
+	"event" text NOT NULL,
+	"url" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"response_status" integer,
+	"response_body" text,
+	"error_message" text,
+	"next_attempt_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_attempt_at" timestamp,
+	"delivered_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "video_jobs" ADD COLUMN "callback_url" text;--> statement-breakpoint
+ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_job_id_video_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."video_jobs"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "video_jobs" ADD COLUMN "audio_probes" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "video_jobs" ADD COLUMN "strict_durations" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "video_jobs" ADD COLUMN "warnings" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "video_jobs" ADD COLUMN "thumbnail_fit" text DEFAULT 'contain' NOT NULL;--> statement-breakpoint
+ALTER TABLE "video_jobs" ADD COLUMN "thumbnail_pad_color" text DEFAULT '#000000' NOT NULL;
\ No newline at end of file
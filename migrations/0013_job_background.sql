@@ -0,0 +1,2 @@
+ALTER TABLE "video_jobs" ADD COLUMN "background" text;--> statement-breakpoint
+ALTER TABLE "video_jobs" ADD COLUMN "background_url" text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "video_jobs" ADD COLUMN "images" jsonb;--> statement-breakpoint
+ALTER TABLE "video_jobs" ADD COLUMN "slide_transition" text DEFAULT 'cut' NOT NULL;--> statement-breakpoint
+ALTER TABLE "video_jobs" ADD COLUMN "slide_transition_seconds" real DEFAULT 1 NOT NULL;
\ No newline at end of file
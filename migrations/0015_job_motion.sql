@@ -0,0 +1,2 @@
+ALTER TABLE "video_jobs" ADD COLUMN "motion" text DEFAULT 'none' NOT NULL;--> statement-breakpoint
+ALTER TABLE "video_jobs" ADD COLUMN "motion_frame_rate" integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "video_jobs" ADD COLUMN "now_playing" jsonb;
\ No newline at end of file
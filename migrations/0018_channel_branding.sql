@@ -0,0 +1,8 @@
+CREATE TABLE "channel_branding" (
+	"channel_id" text PRIMARY KEY NOT NULL,
+	"overlays" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "video_jobs" ADD COLUMN "overlays" jsonb;
\ No newline at end of file
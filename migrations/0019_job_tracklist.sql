@@ -0,0 +1 @@
+ALTER TABLE "video_jobs" ADD COLUMN "tracklist" jsonb;
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { TARGET_DURATION_LIMITS } from '@shared/schema';
 
 // Environment validation schema
 const envSchema = z.object({
@@ -17,6 +18,7 @@ const envSchema = z.object({
   SESSION_SECRET: z.string().min(32),
   CORS_ORIGIN: z.string().optional(),
   TRUSTED_PROXIES: z.string().optional(),
+  ADMIN_API_KEY: z.string().min(16).optional(),
   
   // Rate limiting
   RATE_LIMIT_WINDOW_MS: z.coerce.number().default(900000), // 15 minutes
@@ -24,15 +26,50 @@ const envSchema = z.object({
   
   // Video processing
   MAX_CONCURRENT_JOBS: z.coerce.number().default(3),
-  VIDEO_DURATION_SECONDS: z.coerce.number().default(1800),
+  // Default target duration for jobs that don't set target_duration_seconds
+  VIDEO_DURATION_SECONDS: z.coerce.number().int().min(TARGET_DURATION_LIMITS.min).max(TARGET_DURATION_LIMITS.max).default(3600),
   FFMPEG_THREADS: z.coerce.number().default(0),
   CLEANUP_TEMP_FILES: z.coerce.boolean().default(true),
+  MAX_JOB_ATTEMPTS: z.coerce.number().int().min(1).default(3),
+  MIN_SONGS_PER_JOB: z.coerce.number().int().min(1).default(3),
+  MAX_SONGS_PER_JOB: z.coerce.number().int().max(100).default(40),
+  DOWNLOAD_CONCURRENCY: z.coerce.number().int().min(1).default(4),
+  // Fade applied when the last song is cut at the target duration (0 disables)
+  AUDIO_FADE_OUT_SECONDS: z.coerce.number().min(0).default(5),
+  // Loudness normalization defaults for jobs with normalize_loudness
+  LOUDNESS_TARGET_LUFS: z.coerce.number().min(-70).max(-5).default(-14),
+  LOUDNESS_TRUE_PEAK_DBTP: z.coerce.number().min(-9).max(0).default(-1.5),
+  // Frame rate of slideshows with crossfade/slide transitions and of fading now-playing text
+  // (stills and cuts use far fewer frames)
+  SLIDESHOW_FRAME_RATE: z.coerce.number().int().min(1).max(60).default(24),
+  // Default frame rate of jobs with motion that don't set motion_frame_rate
+  MOTION_FRAME_RATE: z.coerce.number().int().min(10).max(60).default(25),
+  // Frame rate of jobs with an audio visualizer (and no motion, which sets its own)
+  VISUALIZER_FRAME_RATE: z.coerce.number().int().min(10).max(60).default(25),
+  // Allowed difference between a song's declared length and its measured duration
+  DURATION_TOLERANCE_SECONDS: z.coerce.number().min(0).default(2),
   
   // File storage
   TEMP_DIR: z.string().default('./temp'),
   OUTPUT_DIR: z.string().default('./output'),
+  // Fonts for text overlays
+  FONTS_DIR: z.string().default('./server/assets/fonts'),
   MAX_FILE_SIZE: z.string().default('500MB'),
   
+  // Downloads of user-supplied URLs
+  // Comma-separated hosts (subdomains included); when set, only these are allowed
+  DOWNLOAD_ALLOWED_HOSTS: z.string().optional(),
+  DOWNLOAD_DENIED_HOSTS: z.string().optional(),
+  // Allow loopback/private/link-local addresses (local development only)
+  DOWNLOAD_ALLOW_PRIVATE_NETWORKS: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+  DOWNLOAD_MAX_REDIRECTS: z.coerce.number().int().min(0).default(5),
+  DOWNLOAD_TIMEOUT_MS: z.coerce.number().int().min(1000).default(300000),
+  DOWNLOAD_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(3),
+  DOWNLOAD_RETRY_BASE_MS: z.coerce.number().int().min(0).default(1000),
+  // Shared cache of downloaded files, evicted least-recently-used past the budget ("0" disables it)
+  DOWNLOAD_CACHE_DIR: z.string().default('./cache'),
+  DOWNLOAD_CACHE_SIZE: z.string().default('10GB'),
+
   // Database (optional)
   DATABASE_URL: z.string().url().optional(),
   DATABASE_SSL: z.coerce.boolean().default(false),
@@ -56,7 +93,16 @@ const envSchema = z.object({
   EMAIL_PASS: z.string().optional(),
   
   // Webhooks (optional)
+  // Default endpoint for jobs without a callback_url
   WEBHOOK_URL: z.string().url().optional(),
+  // Key for the HMAC-SHA256 signature header
+  WEBHOOK_SECRET: z.string().min(16).optional(),
+  WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(6),
+  // Delay before the first retry; doubles with every further attempt
+  WEBHOOK_RETRY_BASE_MS: z.coerce.number().int().min(100).default(5000),
+  WEBHOOK_TIMEOUT_MS: z.coerce.number().int().min(1000).default(10000),
+  // Progress points between two job.progress events
+  WEBHOOK_PROGRESS_STEP: z.coerce.number().int().min(1).max(100).default(10),
   
   // SSL/TLS
   SSL_KEY_PATH: z.string().optional(),
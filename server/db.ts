@@ -0,0 +1,47 @@
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import * as schema from "@shared/schema";
+import { config } from "./config/environment";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+const MIGRATIONS_FOLDER = "./migrations";
+
+let pool: pg.Pool | null = null;
+let db: Database | null = null;
+
+// Lazily create the shared connection pool (only when DATABASE_URL is set)
+export function getDb(): Database {
+  if (!config.DATABASE_URL) {
+    throw new Error("DATABASE_URL is not set, cannot connect to PostgreSQL");
+  }
+
+  if (!db) {
+    pool = new pg.Pool({
+      connectionString: config.DATABASE_URL,
+      ssl: config.DATABASE_SSL ? { rejectUnauthorized: false } : undefined,
+    });
+    pool.on("error", (error) => {
+      console.error("❌ PostgreSQL pool error:", error);
+    });
+    db = drizzle(pool, { schema });
+  }
+
+  return db;
+}
+
+// Apply pending migrations from ./migrations
+export async function runMigrations(): Promise<void> {
+  console.log("🗄️ Applying database migrations...");
+  await migrate(getDb(), { migrationsFolder: MIGRATIONS_FOLDER });
+  console.log("✅ Database migrations applied");
+}
+
+export async function closeDb(): Promise<void> {
+  if (pool) {
+    await pool.end();
+    pool = null;
+    db = null;
+  }
+}
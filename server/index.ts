@@ -2,6 +2,12 @@ import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { config } from "./config/environment";
+import { runMigrations } from "./db";
+import { storage } from "./storage";
+import { jobQueue } from "./services/jobQueue";
+import { recoverInterruptedJobs } from "./services/jobRecovery";
+import { webhooks } from "./services/webhooks";
 
 const app = express();
 app.use(express.json());
@@ -47,8 +53,20 @@ app.use((req, res, next) => {
 (async () => {
   try {
     console.log('🚀 Starting VideoMaestro server...');
+
+    // Bring the job database schema up to date before accepting requests
+    if (config.DATABASE_URL) {
+      await runMigrations();
+    }
+
     const server = await registerRoutes(app);
 
+    // Webhooks listen before recovery so re-queued and failed jobs are reported
+    await webhooks.start();
+
+    // Pick up jobs that were interrupted by the previous shutdown
+    await recoverInterruptedJobs(storage, jobQueue);
+
     app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
       const status = err.status || err.statusCode || 500;
       const message = err.message || "Internal Server Error";
@@ -0,0 +1,30 @@
+import { EventEmitter } from "events";
+import type { VideoJob } from "@shared/schema";
+
+export type JobEvent =
+  | { type: "updated"; job: VideoJob }
+  | { type: "deleted"; jobId: string };
+
+// In-process bus for job changes, published by storage after every write
+class JobEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: JobEvent) {
+    this.emitter.emit("job", event);
+  }
+
+  // Returns an unsubscribe function
+  subscribe(listener: (event: JobEvent) => void): () => void {
+    this.emitter.on("job", listener);
+    return () => {
+      this.emitter.off("job", listener);
+    };
+  }
+}
+
+export const jobEvents = new JobEventBus();
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
+import crypto from 'crypto';
 
 // Rate limiting store
 const rateLimitStore = new Map<string, { requests: number; resetTime: number }>();
@@ -11,6 +12,7 @@ const SECURITY_CONFIG = {
   MAX_PAYLOAD_SIZE: process.env.MAX_PAYLOAD_SIZE || '10mb',
   CORS_ORIGINS: process.env.CORS_ORIGIN?.split(',') || ['http://localhost:5173'],
   TRUSTED_PROXIES: process.env.TRUSTED_PROXIES?.split(',') || [],
+  ADMIN_API_KEY: process.env.ADMIN_API_KEY,
 };
 
 // Get client IP address
@@ -146,6 +148,37 @@ export function validateRequest(schema: z.ZodSchema) {
   };
 }
 
+// Whether the request carries "Authorization: Bearer <ADMIN_API_KEY>"
+export function hasAdminKey(req: Request): boolean {
+  if (!SECURITY_CONFIG.ADMIN_API_KEY) return false;
+  
+  const authorization = req.headers.authorization || '';
+  const token = authorization.startsWith('Bearer ') ? authorization.slice(7) : '';
+  const expected = Buffer.from(SECURITY_CONFIG.ADMIN_API_KEY);
+  const provided = Buffer.from(token);
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
+
+// Admin authentication middleware (expects "Authorization: Bearer <ADMIN_API_KEY>")
+export function requireAdminKey(req: Request, res: Response, next: NextFunction) {
+  if (!SECURITY_CONFIG.ADMIN_API_KEY) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: 'Admin API is disabled. Set ADMIN_API_KEY to enable it.'
+    });
+  }
+  
+  if (!hasAdminKey(req)) {
+    console.warn(`Rejected admin request from IP: ${getClientIP(req)}`);
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Invalid or missing admin API key'
+    });
+  }
+  
+  next();
+}
+
 // Request sanitization middleware
 export function sanitizeInput(req: Request, res: Response, next: NextFunction) {
   // Basic input sanitization
@@ -1,9 +1,16 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertVideoJobSchema } from "@shared/schema";
+import { channelBrandingInputSchema, framePreviewSchema, insertVideoJobSchema, insertWebhookEndpointSchema, TARGET_DURATION_LIMITS, TERMINAL_STATUSES, CUE_MAX_TRACKS, tracklistFormatSchema } from "@shared/schema";
 import { z } from "zod";
-import { processVideo } from "./services/videoProcessor";
+import { jobQueue } from "./services/jobQueue";
+import { webhooks } from "./services/webhooks";
+import { renderFramePreview } from "./services/thumbnail";
+import { formatTracklist } from "./services/tracklist";
+import { assertUrlAllowed } from "./services/downloader";
+import { jobEvents } from "./jobEvents";
+import { config } from "./config/environment";
+import type { FramePreview, Overlays, TracklistEntry, VideoJob, WebhookDelivery, WebhookEndpoint } from "@shared/schema";
 import path from "path";
 import fs from "fs";
 import { 
@@ -13,12 +20,77 @@ import {
   validateRequest, 
   sanitizeInput, 
   errorHandler, 
-  healthCheck 
+  healthCheck,
+  hasAdminKey,
+  requireAdminKey
 } from "./middleware/security";
 
 // Simple in-memory rate limiting
 const activeJobs = new Set<string>();
 
+// Keep idle SSE connections open through proxies
+const SSE_HEARTBEAT_MS = 25000;
+// Coalesce bursts of job updates into one stats recomputation
+const STATS_DEBOUNCE_MS = 500;
+// Previews download artwork and run FFmpeg, so only a few run at once
+const MAX_CONCURRENT_PREVIEWS = 2;
+const PREVIEW_TIMEOUT_MS = 60000;
+let activePreviews = 0;
+
+// Numeric route parameter, or NaN for anything else
+function parseNumericId(value: string): number {
+  return /^\d+$/.test(value) ? Number(value) : NaN;
+}
+
+// Endpoint secrets are write-only
+function withoutSecret(endpoint: WebhookEndpoint) {
+  const { secret, ...rest } = endpoint;
+  return { ...rest, has_secret: Boolean(secret) };
+}
+
+// A receiver's response may hold anything it chose to return, so only admins see it
+function withoutResponseBody(delivery: WebhookDelivery) {
+  return { ...delivery, response_body: null };
+}
+
+// Why webhooks can't be sent to url under the download URL policy, or null if they can.
+// Hostnames are only resolved (and checked) when a delivery is made.
+function blockedUrlReason(url: string): string | null {
+  try {
+    assertUrlAllowed(new URL(url));
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "URL not allowed";
+  }
+}
+
+// Start a Server-Sent Events response; returns a function that sends one event
+function openEventStream(res: Response, onClose: () => void) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    "Connection": "keep-alive",
+    "X-Accel-Buffering": "no"
+  });
+  res.write("retry: 3000\n\n");
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), SSE_HEARTBEAT_MS);
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    onClose();
+  });
+
+  return (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+}
+
+// callback_url is often a secret hook URL, so only requests with the admin key see it
+function withQueuePosition(job: VideoJob, isAdmin: boolean) {
+  const { callback_url, ...rest } = job;
+  return { ...rest, ...(isAdmin ? { callback_url } : {}), queue_position: jobQueue.getPosition(job.id) };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Apply security middleware
   app.use(corsHandler);
@@ -30,9 +102,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/health", healthCheck);
   // Create video job endpoint (asynchronous processing - returns immediately)
   app.post("/api/video-jobs", rateLimiter, validateRequest(insertVideoJobSchema), async (req, res) => {
+    // Key marked active for a job that hasn't been created yet
+    let pendingKey: string | null = null;
     try {
       const jobData = insertVideoJobSchema.parse(req.body);
       
+      // The shared schema only enforces hard bounds; apply this server's limits
+      if (jobData.songs.length < config.MIN_SONGS_PER_JOB || jobData.songs.length > config.MAX_SONGS_PER_JOB) {
+        return res.status(400).json({
+          error: "Invalid request data",
+          details: [{
+            field: "songs",
+            message: `Between ${config.MIN_SONGS_PER_JOB} and ${config.MAX_SONGS_PER_JOB} songs are required, got ${jobData.songs.length}`
+          }]
+        });
+      }
+      
+      const callbackBlocked = jobData.callback_url ? blockedUrlReason(jobData.callback_url) : null;
+      if (callbackBlocked) {
+        return res.status(400).json({
+          error: "Invalid request data",
+          details: [{ field: "callback_url", message: callbackBlocked }]
+        });
+      }
+      
       // Check for duplicate/similar requests
       const jobKey = `${jobData.title}-${jobData.thumbnail_url}`;
       if (activeJobs.has(jobKey)) {
@@ -44,17 +137,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Mark this job as active
       activeJobs.add(jobKey);
+      pendingKey = jobKey;
       
-      const job = await storage.createVideoJob(jobData);
+      // Persist the effective duration and loudness settings on the job
+      // Jobs that don't set overlays (null opts out) take their channel's branding as it is now
+      const overlays = jobData.overlays !== undefined
+        ? jobData.overlays
+        : (await storage.getChannelBranding(jobData.channel_id))?.overlays as Overlays | undefined ?? null;
       
-      console.log(`🎬 Starting asynchronous processing for job ${job.id}`);
+      const job = await storage.createVideoJob({
+        ...jobData,
+        overlays,
+        target_duration_seconds: jobData.target_duration_seconds ?? config.VIDEO_DURATION_SECONDS,
+        loop_mode: jobData.loop_mode ?? "loop_to_duration",
+        loudness_target_lufs: jobData.normalize_loudness
+          ? jobData.loudness_target_lufs ?? config.LOUDNESS_TARGET_LUFS
+          : null,
+      });
+      pendingKey = null;
       
-      // Process video asynchronously - don't wait for completion
-      processVideo(job.id, jobData, storage).then(() => {
-        console.log(`✅ Job ${job.id} completed successfully`);
-        activeJobs.delete(jobKey);
-      }).catch((error) => {
-        console.error(`❌ Job ${job.id} failed:`, error);
+      // Queue the job - it starts once a processing slot is free
+      jobQueue.enqueue(job.id, job.priority).then(() => {
+        console.log(`🏁 Job ${job.id} finished processing`);
         activeJobs.delete(jobKey);
       });
       
@@ -62,10 +166,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(202).json({
         job_id: job.id,
         status: "queued",
-        message: "Video processing started. Use GET /api/video-jobs/" + job.id + " to check status."
+        queue_position: jobQueue.getPosition(job.id),
+        message: "Video job queued. Use GET /api/video-jobs/" + job.id + " to check status."
       });
       
     } catch (error) {
+      // The job was never created, so nothing will clear its key later
+      if (pendingKey) activeJobs.delete(pendingKey);
       if (error instanceof z.ZodError) {
         return res.status(400).json({ 
           error: "Invalid request data", 
@@ -77,11 +184,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Job limits for clients building requests
+  app.get("/api/limits", (req, res) => {
+    res.json({
+      min_songs: config.MIN_SONGS_PER_JOB,
+      max_songs: config.MAX_SONGS_PER_JOB,
+      min_target_duration_seconds: TARGET_DURATION_LIMITS.min,
+      max_target_duration_seconds: TARGET_DURATION_LIMITS.max,
+      default_target_duration_seconds: config.VIDEO_DURATION_SECONDS
+    });
+  });
+
+  // Render the still frame a job with these artwork settings would show
+  app.post("/api/preview/frame", rateLimiter, validateRequest(framePreviewSchema), async (req, res) => {
+    if (activePreviews >= MAX_CONCURRENT_PREVIEWS) {
+      return res.status(503).json({ error: "Too many previews in progress, try again shortly" });
+    }
+
+    activePreviews++;
+    const abort = new AbortController();
+    res.on("close", () => abort.abort());
+    try {
+      const frame = await renderFramePreview(req.body as FramePreview, AbortSignal.any([abort.signal, AbortSignal.timeout(PREVIEW_TIMEOUT_MS)]));
+      res.type("png").send(frame);
+    } catch (error) {
+      if (abort.signal.aborted) return;
+      console.error("Error rendering preview frame:", error);
+      res.status(422).json({
+        error: "Could not render preview",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    } finally {
+      activePreviews--;
+    }
+  });
+
   // Get all jobs
   app.get("/api/video-jobs", async (req, res) => {
     try {
       const jobs = await storage.getAllVideoJobs();
-      res.json(jobs);
+      const isAdmin = hasAdminKey(req);
+      res.json(jobs.map(job => withQueuePosition(job, isAdmin)));
     } catch (error) {
       console.error("Error fetching jobs:", error);
       res.status(500).json({ error: "Internal server error" });
@@ -92,7 +235,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/video-jobs/active", async (req, res) => {
     try {
       const jobs = await storage.getActiveVideoJobs();
-      res.json(jobs);
+      const isAdmin = hasAdminKey(req);
+      res.json(jobs.map(job => withQueuePosition(job, isAdmin)));
     } catch (error) {
       console.error("Error fetching active jobs:", error);
       res.status(500).json({ error: "Internal server error" });
@@ -106,13 +250,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!job) {
         return res.status(404).json({ error: "Job not found" });
       }
-      res.json(job);
+      res.json(withQueuePosition(job, hasAdminKey(req)));
     } catch (error) {
       console.error("Error fetching job:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
+  // Live updates for a single job (closes once the job reaches a final status)
+  app.get("/api/video-jobs/:id/events", async (req, res) => {
+    try {
+      const job = await storage.getVideoJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      
+      const isAdmin = hasAdminKey(req);
+      let unsubscribe = () => {};
+      const send = openEventStream(res, () => unsubscribe());
+      unsubscribe = jobEvents.subscribe((event) => {
+        if (event.type === "deleted" && event.jobId === job.id) {
+          send("deleted", { id: job.id });
+          res.end();
+        } else if (event.type === "updated" && event.job.id === job.id) {
+          send("job", withQueuePosition(event.job, isAdmin));
+          if (TERMINAL_STATUSES.includes(event.job.status)) res.end();
+        }
+      });
+      
+      send("job", withQueuePosition(job, isAdmin));
+      if (TERMINAL_STATUSES.includes(job.status)) res.end();
+    } catch (error) {
+      console.error("Error opening job event stream:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Live updates for all jobs plus job statistics
+  app.get("/api/events", async (req, res) => {
+    try {
+      const isAdmin = hasAdminKey(req);
+      let statsTimer: NodeJS.Timeout | null = null;
+      let unsubscribe = () => {};
+      const send = openEventStream(res, () => {
+        unsubscribe();
+        if (statsTimer) clearTimeout(statsTimer);
+      });
+      
+      const sendStats = async () => {
+        statsTimer = null;
+        try {
+          send("stats", await storage.getJobStats());
+        } catch (error) {
+          console.error("Error computing stats for event stream:", error);
+        }
+      };
+      
+      unsubscribe = jobEvents.subscribe((event) => {
+        if (event.type === "deleted") {
+          send("deleted", { id: event.jobId });
+        } else {
+          send("job", withQueuePosition(event.job, isAdmin));
+        }
+        if (!statsTimer) statsTimer = setTimeout(sendStats, STATS_DEBOUNCE_MS);
+      });
+      
+      await sendStats();
+    } catch (error) {
+      console.error("Error opening event stream:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Get job statistics
   app.get("/api/stats", async (req, res) => {
     try {
@@ -124,7 +333,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Cancel job
+  // Cancel job (removes it from the queue or kills its running FFmpeg/downloads)
   app.delete("/api/video-jobs/:id", async (req, res) => {
     try {
       const job = await storage.getVideoJob(req.params.id);
@@ -132,15 +341,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Job not found" });
       }
       
-      if (["completed", "failed"].includes(job.status)) {
-        return res.status(400).json({ error: "Cannot cancel completed or failed job" });
+      if (TERMINAL_STATUSES.includes(job.status)) {
+        return res.status(400).json({ error: "Cannot cancel a completed, failed or cancelled job" });
       }
       
       await storage.updateVideoJob(req.params.id, { 
-        status: "failed", 
+        status: "cancelled", 
         error_message: "Cancelled by user",
-        failed_at: new Date()
+        cancelled_at: new Date()
       });
+      jobQueue.cancel(req.params.id);
       
       res.json({ message: "Job cancelled successfully" });
     } catch (error) {
@@ -149,10 +359,202 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Webhook deliveries for a job, newest first
+  app.get("/api/video-jobs/:id/webhooks", async (req, res) => {
+    try {
+      const job = await storage.getVideoJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      
+      const deliveries = await storage.getWebhookDeliveries(job.id);
+      res.json(hasAdminKey(req) ? deliveries : deliveries.map(withoutResponseBody));
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Song timestamps of a job's video (?format=youtube|json|csv|cue, youtube by default)
+  app.get("/api/video-jobs/:id/tracklist", async (req, res) => {
+    try {
+      const format = tracklistFormatSchema.safeParse(req.query.format ?? "youtube");
+      if (!format.success) {
+        return res.status(400).json({
+          error: "Invalid tracklist format",
+          details: `format must be one of: ${tracklistFormatSchema.options.join(", ")}`
+        });
+      }
+      
+      const job = await storage.getVideoJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      
+      const tracklist = job.tracklist as TracklistEntry[] | null;
+      if (!tracklist) {
+        return res.status(409).json({
+          error: "Tracklist not available",
+          details: "The tracklist is recorded once the job's playlist has been planned"
+        });
+      }
+      if (format.data === "cue" && tracklist.length > CUE_MAX_TRACKS) {
+        return res.status(422).json({
+          error: "Too many tracks for a CUE sheet",
+          details: `CUE sheets hold at most ${CUE_MAX_TRACKS} tracks, this video has ${tracklist.length}`
+        });
+      }
+      
+      const document = formatTracklist(tracklist, format.data, { title: job.title, videoFile: `${job.id}.mp4` });
+      // YouTube and JSON tracklists display inline; CSV and CUE files download
+      if (format.data === "csv" || format.data === "cue") {
+        res.attachment(`${job.id}.${document.extension}`);
+      }
+      res.type(document.contentType).send(document.body);
+    } catch (error) {
+      console.error("Error exporting tracklist:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Send a past webhook delivery again
+  app.post("/api/video-jobs/:id/webhooks/:deliveryId/redeliver", requireAdminKey, async (req, res) => {
+    try {
+      const deliveryId = parseNumericId(req.params.deliveryId);
+      const delivery = Number.isNaN(deliveryId) ? undefined : await storage.getWebhookDelivery(deliveryId);
+      if (!delivery || delivery.job_id !== req.params.id) {
+        return res.status(404).json({ error: "Webhook delivery not found" });
+      }
+      
+      res.status(202).json(await webhooks.redeliver(delivery));
+    } catch (error) {
+      console.error("Error redelivering webhook:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Queue administration
+  app.get("/api/admin/queue", requireAdminKey, (req, res) => {
+    res.json(jobQueue.getState());
+  });
+
+  app.post("/api/admin/queue/pause", requireAdminKey, (req, res) => {
+    jobQueue.pause();
+    res.json(jobQueue.getState());
+  });
+
+  app.post("/api/admin/queue/resume", requireAdminKey, (req, res) => {
+    jobQueue.resume();
+    res.json(jobQueue.getState());
+  });
+
+  // Webhook endpoint registration
+  app.get("/api/admin/webhooks", requireAdminKey, async (req, res) => {
+    try {
+      const endpoints = await storage.getWebhookEndpoints();
+      res.json(endpoints.map(withoutSecret));
+    } catch (error) {
+      console.error("Error fetching webhook endpoints:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/webhooks", requireAdminKey, validateRequest(insertWebhookEndpointSchema), async (req, res) => {
+    try {
+      const urlBlocked = blockedUrlReason(req.body.url);
+      if (urlBlocked) {
+        return res.status(400).json({
+          error: "Invalid request data",
+          details: [{ field: "url", message: urlBlocked }]
+        });
+      }
+      
+      const endpoint = await storage.createWebhookEndpoint(req.body);
+      res.status(201).json(withoutSecret(endpoint));
+    } catch (error) {
+      console.error("Error creating webhook endpoint:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/admin/webhooks/:id", requireAdminKey, validateRequest(insertWebhookEndpointSchema.partial()), async (req, res) => {
+    try {
+      const urlBlocked = req.body.url ? blockedUrlReason(req.body.url) : null;
+      if (urlBlocked) {
+        return res.status(400).json({
+          error: "Invalid request data",
+          details: [{ field: "url", message: urlBlocked }]
+        });
+      }
+      
+      const id = parseNumericId(req.params.id);
+      const endpoint = Number.isNaN(id) ? undefined : await storage.updateWebhookEndpoint(id, req.body);
+      if (!endpoint) {
+        return res.status(404).json({ error: "Webhook endpoint not found" });
+      }
+      res.json(withoutSecret(endpoint));
+    } catch (error) {
+      console.error("Error updating webhook endpoint:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/admin/webhooks/:id", requireAdminKey, async (req, res) => {
+    try {
+      const id = parseNumericId(req.params.id);
+      const deleted = !Number.isNaN(id) && await storage.deleteWebhookEndpoint(id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Webhook endpoint not found" });
+      }
+      res.json({ message: "Webhook endpoint deleted" });
+    } catch (error) {
+      console.error("Error deleting webhook endpoint:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Channel branding profiles
+  app.get("/api/admin/channels/:channelId/branding", requireAdminKey, async (req, res) => {
+    try {
+      const branding = await storage.getChannelBranding(req.params.channelId);
+      if (!branding) {
+        return res.status(404).json({ error: "Channel branding not found" });
+      }
+      res.json(branding);
+    } catch (error) {
+      console.error("Error fetching channel branding:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/admin/channels/:channelId/branding", requireAdminKey, validateRequest(channelBrandingInputSchema), async (req, res) => {
+    try {
+      const branding = await storage.setChannelBranding(req.params.channelId, req.body.overlays);
+      res.json(branding);
+    } catch (error) {
+      console.error("Error saving channel branding:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/admin/channels/:channelId/branding", requireAdminKey, async (req, res) => {
+    try {
+      const deleted = await storage.deleteChannelBranding(req.params.channelId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Channel branding not found" });
+      }
+      res.json({ message: "Channel branding deleted" });
+    } catch (error) {
+      console.error("Error deleting channel branding:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Test webhook environment
   app.get("/api/webhook-test", (req, res) => {
     res.json({ 
-      webhook_url: process.env.WEBHOOK_URL || "NOT_SET",
+      webhook_url: config.WEBHOOK_URL || "NOT_SET",
+      signing_enabled: Boolean(config.WEBHOOK_SECRET),
       env_vars: Object.keys(process.env).filter(k => k.includes('WEBHOOK'))
     });
   });
@@ -0,0 +1,120 @@
+import type { CrossfadeCurve, SongProbe } from '@shared/schema';
+import type { PlaylistPlan } from './playlistPlanner';
+import { formatSeconds, loudnormFilter, type LoudnessMeasurement, type LoudnormTarget } from './ffmpeg';
+
+export interface AudioGraphOptions {
+  crossfadeSeconds: number;
+  crossfadeCurve: CrossfadeCurve;
+  gapSeconds: number;
+  // Applied at the end when the last entry is cut at the target duration
+  fadeOutSeconds: number;
+  // Second loudnorm pass per entry, with measurements indexed by song
+  loudness?: {
+    target: LoudnormTarget;
+    measurements: LoudnessMeasurement[];
+  };
+}
+
+export interface AudioFilterGraph {
+  // Input files in "-i" order, one per plan entry
+  inputs: string[];
+  filterGraph: string;
+  outputLabel: string;
+}
+
+// Entries are brought to one format so concat and acrossfade can join them
+const ENTRY_FORMAT = 'aresample=44100,aformat=sample_fmts=fltp:channel_layouts=stereo';
+
+// Whether the plan can be played by the concat demuxer: hard cuts, no
+// loudness pass, and songs the demuxer can read as one stream (same codec,
+// sample rate and channels). It opens one file at a time, however long the
+// playlist, where the filter graph takes an input per entry.
+export function canUseConcatDemuxer(options: AudioGraphOptions, probes: SongProbe[]): boolean {
+  if (options.crossfadeSeconds > 0 || options.gapSeconds > 0 || options.loudness) return false;
+  return probes.every(probe =>
+    probe.codec === probes[0].codec &&
+    probe.sample_rate === probes[0].sample_rate &&
+    probe.channels === probes[0].channels
+  );
+}
+
+// Concat demuxer list playing the plan's entries in order. The last entry
+// is cut by the encode's -t, where fadeOutFilter fades it out.
+export function buildAudioConcatList(plan: PlaylistPlan, songFiles: string[]): string {
+  return plan.entries.map(entry => `file '${songFiles[entry.songIndex]}'\n`).join('');
+}
+
+// Fade out instead of stopping mid-note when the last song was cut; null when it wasn't
+export function fadeOutFilter(plan: PlaylistPlan, fadeOutSeconds: number): string | null {
+  const lastEntry = plan.entries[plan.entries.length - 1];
+  if (!lastEntry?.trimmed || fadeOutSeconds <= 0) return null;
+
+  const fadeDuration = Math.min(fadeOutSeconds, lastEntry.durationSeconds);
+  const fadeStart = plan.totalDurationSeconds - fadeDuration;
+  return `afade=t=out:st=${formatSeconds(fadeStart)}:d=${formatSeconds(fadeDuration)}`;
+}
+
+// Build a filter graph that plays the plan's entries in order, joined by
+// acrossfade (crossfade), adelay + concat (gap) or plain concat (hard cut).
+// The graph follows the planner's timeline, including loop boundaries.
+// With loudness set, every entry is normalized before it is joined.
+// Every entry is its own input: FFmpeg reads inputs as the graph consumes
+// them, where splitting one input per song would buffer the decoded audio of
+// every later occurrence until concat reaches it.
+export function buildAudioFilterGraph(
+  plan: PlaylistPlan,
+  songFiles: string[],
+  options: AudioGraphOptions
+): AudioFilterGraph {
+  const { crossfadeSeconds, crossfadeCurve, gapSeconds, fadeOutSeconds, loudness } = options;
+  if (plan.entries.length === 0) {
+    throw new Error('Cannot build an audio graph for an empty playlist');
+  }
+
+  const inputs: string[] = [];
+  const chains: string[] = [];
+
+  plan.entries.forEach((entry, i) => {
+    inputs.push(songFiles[entry.songIndex]);
+
+    const filters: string[] = [];
+    if (entry.trimmed) {
+      filters.push(`atrim=duration=${formatSeconds(entry.durationSeconds)}`, 'asetpts=PTS-STARTPTS');
+    }
+    if (loudness) {
+      // loudnorm resamples to 192kHz, so it runs before the format conversion
+      filters.push(loudnormFilter(loudness.target, loudness.measurements[entry.songIndex]));
+    }
+    filters.push(ENTRY_FORMAT);
+    if (i > 0 && gapSeconds > 0) {
+      filters.push(`adelay=delays=${Math.round(gapSeconds * 1000)}:all=1`);
+    }
+    chains.push(`[${i}:a]${filters.join(',')}[a${i}]`);
+  });
+
+  let joinedLabel = 'a0';
+  if (plan.entries.length > 1) {
+    if (crossfadeSeconds > 0) {
+      // acrossfade takes two inputs, so fold the entries into a chain
+      const fade = `acrossfade=d=${formatSeconds(crossfadeSeconds)}:c1=${crossfadeCurve}:c2=${crossfadeCurve}`;
+      for (let i = 1; i < plan.entries.length; i++) {
+        const label = `x${i}`;
+        chains.push(`[${joinedLabel}][a${i}]${fade}[${label}]`);
+        joinedLabel = label;
+      }
+    } else {
+      const labels = plan.entries.map((_, i) => `[a${i}]`).join('');
+      chains.push(`${labels}concat=n=${plan.entries.length}:v=0:a=1[joined]`);
+      joinedLabel = 'joined';
+    }
+  }
+
+  let outputLabel = joinedLabel;
+  const fadeOut = fadeOutFilter(plan, fadeOutSeconds);
+  if (fadeOut) {
+    chains.push(`[${joinedLabel}]${fadeOut}[out]`);
+    outputLabel = 'out';
+  }
+
+  return { inputs, filterGraph: chains.join(';\n'), outputLabel };
+}
@@ -0,0 +1,60 @@
+import type { Overlays } from '@shared/schema';
+import { VIDEO_WIDTH } from './thumbnail';
+import { buildDrawtext } from './textOverlay';
+
+export interface BrandingGraph {
+  filterGraph: string;
+  outputLabel: string;
+}
+
+export interface BrandingInputs {
+  // Text file holding the job's title
+  titleFile: string | null;
+  // Stream label of the downloaded watermark image, e.g. "5:v"
+  watermarkStream: string | null;
+}
+
+// Space between the watermark and the frame edges
+const WATERMARK_MARGIN = 40;
+
+// Whether the overlays draw anything
+export function hasBranding(overlays: Overlays | null | undefined): overlays is Overlays {
+  return Boolean(overlays?.title || overlays?.watermark);
+}
+
+// Filter chains drawing the title and then the watermark over videoLabel.
+// The watermark is scaled to its share of the frame width, faded to its
+// opacity and converted to BT.709 YUV so its colors match the video.
+export function buildBrandingGraph(overlays: Overlays, videoLabel: string, inputs: BrandingInputs): BrandingGraph {
+  const chains: string[] = [];
+  let outputLabel = videoLabel;
+
+  if (overlays.title && inputs.titleFile) {
+    const title = overlays.title;
+    chains.push(`[${outputLabel}]${buildDrawtext({
+      textFile: inputs.titleFile,
+      font: title.font,
+      fontSize: title.font_size,
+      color: title.color,
+      box: title.box ? { color: title.box_color, opacity: title.box_opacity } : null,
+      position: title.position,
+    })}[titled]`);
+    outputLabel = 'titled';
+  }
+
+  if (overlays.watermark && inputs.watermarkStream) {
+    const watermark = overlays.watermark;
+    const width = Math.max(2, Math.round(VIDEO_WIDTH * watermark.scale / 2) * 2);
+    const [vertical, horizontal] = watermark.corner.split('_');
+    const x = horizontal === 'left' ? String(WATERMARK_MARGIN) : `W-w-${WATERMARK_MARGIN}`;
+    const y = vertical === 'top' ? String(WATERMARK_MARGIN) : `H-h-${WATERMARK_MARGIN}`;
+    chains.push(
+      `[${inputs.watermarkStream}]scale=${width}:-2,format=rgba,colorchannelmixer=aa=${watermark.opacity},` +
+        'scale=out_color_matrix=bt709:out_range=tv,format=yuva420p[logo]',
+      `[${outputLabel}][logo]overlay=x=${x}:y=${y}:format=yuv420[branded]`
+    );
+    outputLabel = 'branded';
+  }
+
+  return { filterGraph: chains.join(';\n'), outputLabel };
+}
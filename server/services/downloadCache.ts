@@ -0,0 +1,247 @@
+import crypto from 'crypto';
+import { createReadStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../config/environment';
+import type { AudioProbe } from './ffmpeg';
+import { DownloadError, downloadToFile, parseByteSize, type DownloadOptions } from './downloader';
+
+// What the server told us about a URL when it was last downloaded
+interface UrlEntry {
+  hash: string;
+  etag: string | null;
+  lastModified: string | null;
+}
+
+interface BlobEntry {
+  size: number;
+  lastUsedAt: number;
+  // ffprobe result, so a cached song isn't probed again
+  probe?: AudioProbe;
+}
+
+interface CacheIndex {
+  urls: Record<string, UrlEntry>;
+  blobs: Record<string, BlobEntry>;
+}
+
+export interface CachedDownloadOptions extends Pick<DownloadOptions, 'signal' | 'validateResponse'> {
+  // Checked on a fresh download before it is added to the cache; throws to reject the file
+  validateFile?: (filepath: string) => Promise<void>;
+}
+
+export interface CachedDownload {
+  // sha256 of the file, or null when the cache is disabled
+  hash: string | null;
+  fromCache: boolean;
+}
+
+const INDEX_FILE = 'index.json';
+
+export async function hashFile(filepath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of createReadStream(filepath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+// Hard link when source and target share a filesystem, copy otherwise. Copies
+// go through "<target>.part" so a crash mid-copy never leaves a truncated target.
+async function linkOrCopy(source: string, target: string) {
+  await fs.rm(target, { force: true });
+  try {
+    await fs.link(source, target);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code !== 'EXDEV' && code !== 'EPERM') throw error;
+
+    const partialPath = `${target}.part`;
+    try {
+      await fs.copyFile(source, partialPath);
+      await fs.rename(partialPath, target);
+    } catch (copyError) {
+      await fs.rm(partialPath, { force: true });
+      throw copyError;
+    }
+  }
+}
+
+// Run the caller's file checks, removing a rejected file so it isn't reused
+async function validateFile(filepath: string, options: CachedDownloadOptions) {
+  try {
+    await options.validateFile?.(filepath);
+  } catch (error) {
+    await fs.rm(filepath, { force: true });
+    throw error;
+  }
+}
+
+// Downloaded files shared between jobs. Blobs are stored by content hash, and
+// each URL points at the blob it last served along with its ETag/Last-Modified,
+// so a repeated URL is revalidated with a conditional request instead of
+// downloaded again. URLs served without validators can't be revalidated, so
+// they are downloaded every time (their blobs, and ffprobe results, are still
+// shared). Least recently used blobs are evicted past the size budget.
+export class DownloadCache {
+  private index: CacheIndex | null = null;
+  private loading: Promise<CacheIndex> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private readonly maxBytes: number;
+
+  constructor(private readonly dir: string, maxSize: string) {
+    this.maxBytes = parseByteSize(maxSize);
+  }
+
+  get enabled(): boolean {
+    return this.maxBytes > 0;
+  }
+
+  private blobPath(hash: string): string {
+    return path.join(this.dir, hash.slice(0, 2), hash);
+  }
+
+  private async load(): Promise<CacheIndex> {
+    if (this.index) return this.index;
+    this.loading ??= (async () => {
+      await fs.mkdir(this.dir, { recursive: true });
+      try {
+        const parsed = JSON.parse(await fs.readFile(path.join(this.dir, INDEX_FILE), 'utf8')) as CacheIndex;
+        this.index = { urls: parsed.urls ?? {}, blobs: parsed.blobs ?? {} };
+      } catch {
+        // Missing or unreadable index: start empty, orphaned blobs are overwritten as they come back
+        this.index = { urls: {}, blobs: {} };
+      }
+      return this.index;
+    })();
+    return this.loading;
+  }
+
+  // Writes are chained so two saves never interleave, and go through a rename so a crash keeps the old index
+  private save(): Promise<void> {
+    this.saving = this.saving.then(async () => {
+      const indexPath = path.join(this.dir, INDEX_FILE);
+      await fs.writeFile(`${indexPath}.tmp`, JSON.stringify(this.index));
+      await fs.rename(`${indexPath}.tmp`, indexPath);
+    }).catch(error => {
+      console.error('❌ Failed to save download cache index:', error);
+    });
+    return this.saving;
+  }
+
+  private async hasBlob(hash: string): Promise<boolean> {
+    try {
+      await fs.access(this.blobPath(hash));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Download url to filepath, serving it from the cache when possible
+  async fetch(url: string, filepath: string, options: CachedDownloadOptions = {}): Promise<CachedDownload> {
+    if (!this.enabled) {
+      await downloadToFile(url, filepath, options);
+      await validateFile(filepath, options);
+      return { hash: null, fromCache: false };
+    }
+
+    const index = await this.load();
+    const cached = index.urls[url];
+    if (cached && (cached.etag || cached.lastModified) && await this.hasBlob(cached.hash)) {
+      try {
+        const result = await downloadToFile(url, filepath, {
+          ...options,
+          ifNoneMatch: cached.etag,
+          ifModifiedSince: cached.lastModified,
+        });
+        if (result.notModified) {
+          return this.serve(cached.hash, filepath, options);
+        }
+        await validateFile(filepath, options);
+        return { hash: await this.store(url, filepath, result.etag, result.lastModified), fromCache: false };
+      } catch (error) {
+        // An unreachable origin doesn't stop a job whose file is already cached
+        if (options.signal?.aborted || (error instanceof DownloadError && !error.retryable)) throw error;
+        console.warn(`⚠️ Could not revalidate ${url}, using cached copy:`, error instanceof Error ? error.message : error);
+        return this.serve(cached.hash, filepath, options);
+      }
+    }
+
+    const result = await downloadToFile(url, filepath, options);
+    await validateFile(filepath, options);
+    return { hash: await this.store(url, filepath, result.etag, result.lastModified), fromCache: false };
+  }
+
+  // A blob may have been cached for a different use of the URL (a song later
+  // given as a thumbnail), so the caller's file checks run on it too
+  private async serve(hash: string, filepath: string, options: CachedDownloadOptions): Promise<CachedDownload> {
+    await linkOrCopy(this.blobPath(hash), filepath);
+    await validateFile(filepath, options);
+    const index = await this.load();
+    const blob = index.blobs[hash];
+    if (blob) blob.lastUsedAt = Date.now();
+    await this.save();
+    console.log(`📦 Served ${path.basename(filepath)} from download cache`);
+    return { hash, fromCache: true };
+  }
+
+  // Add a freshly downloaded file to the cache and point url at it
+  private async store(url: string, filepath: string, etag: string | null, lastModified: string | null): Promise<string> {
+    const hash = await hashFile(filepath);
+    const { size } = await fs.stat(filepath);
+    if (size > this.maxBytes) return hash;
+
+    // The same content may already be cached under another URL
+    if (!await this.hasBlob(hash)) {
+      await fs.mkdir(path.dirname(this.blobPath(hash)), { recursive: true });
+      await linkOrCopy(filepath, this.blobPath(hash));
+    }
+
+    const index = await this.load();
+    if (etag || lastModified) {
+      index.urls[url] = { hash, etag, lastModified };
+    } else {
+      delete index.urls[url];
+    }
+    index.blobs[hash] = { ...index.blobs[hash], size, lastUsedAt: Date.now() };
+    await this.evict();
+    await this.save();
+    return hash;
+  }
+
+  // Remove least recently used blobs (and the URLs pointing at them) until the cache fits its budget
+  private async evict() {
+    const index = await this.load();
+    const blobs = Object.entries(index.blobs).sort(([, a], [, b]) => a.lastUsedAt - b.lastUsedAt);
+    let totalBytes = blobs.reduce((sum, [, blob]) => sum + blob.size, 0);
+
+    for (const [hash, blob] of blobs) {
+      if (totalBytes <= this.maxBytes) break;
+      await fs.rm(this.blobPath(hash), { force: true });
+      delete index.blobs[hash];
+      for (const [url, entry] of Object.entries(index.urls)) {
+        if (entry.hash === hash) delete index.urls[url];
+      }
+      totalBytes -= blob.size;
+      console.log(`🧹 Evicted ${hash.slice(0, 12)} (${blob.size} bytes) from download cache`);
+    }
+  }
+
+  async getProbe(hash: string | null): Promise<AudioProbe | undefined> {
+    if (!hash || !this.enabled) return undefined;
+    const index = await this.load();
+    return index.blobs[hash]?.probe;
+  }
+
+  async setProbe(hash: string | null, probe: AudioProbe) {
+    if (!hash || !this.enabled) return;
+    const index = await this.load();
+    const blob = index.blobs[hash];
+    if (!blob) return;
+    blob.probe = probe;
+    await this.save();
+  }
+}
+
+export const downloadCache = new DownloadCache(config.DOWNLOAD_CACHE_DIR, config.DOWNLOAD_CACHE_SIZE);
@@ -0,0 +1,321 @@
+import dns from 'dns';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import fetch, { type Response } from 'node-fetch';
+import { config } from '../config/environment';
+
+export interface DownloadOptions {
+  signal?: AbortSignal;
+  // Checked once the response headers arrive, before anything is written
+  validateResponse?: (response: Response) => void;
+  // Validators of a cached copy; a 304 response skips the download
+  ifNoneMatch?: string | null;
+  ifModifiedSince?: string | null;
+}
+
+export interface DownloadResult {
+  bytes: number;
+  etag: string | null;
+  lastModified: string | null;
+  // The server confirmed the cached copy (304); nothing was written
+  notModified: boolean;
+}
+
+// Failure with a known cause; retryable says whether another attempt could succeed
+export class DownloadError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'DownloadError';
+  }
+}
+
+// Code given to connect-time policy failures, which node-fetch passes through as FetchError.code
+const BLOCKED_ERROR_CODE = 'ERR_DOWNLOAD_BLOCKED';
+
+// Statuses worth retrying: timeouts, rate limiting and server errors
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+const SIZE_UNITS: Record<string, number> = {
+  B: 1,
+  KB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+};
+
+// "500MB" -> bytes
+export function parseByteSize(value: string): number {
+  const match = value.trim().toUpperCase().match(/^(\d+(?:\.\d+)?)\s*(B|KB|MB|GB)?$/);
+  if (!match) {
+    throw new Error(`Invalid size: ${value}`);
+  }
+  return Math.floor(parseFloat(match[1]) * SIZE_UNITS[match[2] ?? 'B']);
+}
+
+function parseHostList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map(host => host.trim().toLowerCase().replace(/^\*?\./, ''))
+    .filter(Boolean);
+}
+
+const MAX_DOWNLOAD_BYTES = parseByteSize(config.MAX_FILE_SIZE);
+const ALLOWED_HOSTS = parseHostList(config.DOWNLOAD_ALLOWED_HOSTS);
+const DENIED_HOSTS = parseHostList(config.DOWNLOAD_DENIED_HOSTS);
+
+// Addresses a download must never reach: loopback, private, link-local,
+// carrier-grade NAT, multicast and reserved ranges
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isBlockedAddress(address: string): boolean {
+  if (config.DOWNLOAD_ALLOW_PRIVATE_NETWORKS) return false;
+
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address it wraps
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return blockedAddresses.check(mapped[1], 'ipv4');
+
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// A host matches a list entry when it is the entry or one of its subdomains
+function hostMatches(host: string, entries: string[]): boolean {
+  return entries.some(entry => host === entry || host.endsWith(`.${entry}`));
+}
+
+// Reject URLs the server must not fetch. Hostnames are resolved and checked
+// again at connect time (see safeLookup), so DNS can't be used to sneak past this.
+export function assertUrlAllowed(url: URL) {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new DownloadError(`Blocked download from ${url.href}: only http and https URLs are allowed`, false);
+  }
+  if (url.username || url.password) {
+    throw new DownloadError(`Blocked download from ${url.href}: URLs with credentials are not allowed`, false);
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (hostMatches(host, DENIED_HOSTS)) {
+    throw new DownloadError(`Blocked download from ${url.href}: host ${host} is denied`, false);
+  }
+  if (ALLOWED_HOSTS.length > 0 && !hostMatches(host, ALLOWED_HOSTS)) {
+    throw new DownloadError(`Blocked download from ${url.href}: host ${host} is not in the allowed hosts`, false);
+  }
+  // Literal IPs never go through DNS, so they are checked here
+  if (net.isIP(host) && isBlockedAddress(host)) {
+    throw new DownloadError(`Blocked download from ${url.href}: ${host} is a private or reserved address`, false);
+  }
+}
+
+// dns.lookup replacement for the download agents: every resolved address is
+// checked, and the connection goes to an address that passed the check
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked) {
+      const blockedError: NodeJS.ErrnoException = new Error(
+        `Blocked download from ${hostname}: resolves to private or reserved address ${blocked.address}`
+      );
+      blockedError.code = BLOCKED_ERROR_CODE;
+      callback(blockedError, '', 0);
+      return;
+    }
+
+    if (options.all) {
+      (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const httpAgent = new http.Agent({ lookup: safeLookup });
+const httpsAgent = new https.Agent({ lookup: safeLookup });
+
+// node-fetch agent for requests to user-supplied URLs (downloads and webhooks)
+export function policyAgent(parsedUrl: URL): http.Agent {
+  return parsedUrl.protocol === 'https:' ? httpsAgent : httpAgent;
+}
+
+// Fetch with the URL policy applied to the first request and every redirect
+async function fetchWithPolicy(url: string, signal: AbortSignal, headers: Record<string, string>): Promise<Response> {
+  let currentUrl = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    assertUrlAllowed(currentUrl);
+
+    const response = await fetch(currentUrl.href, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; VideoGenerator/1.0)',
+        ...headers
+      },
+      redirect: 'manual',
+      agent: policyAgent,
+      signal,
+    });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    response.body?.resume();
+    if (redirects >= config.DOWNLOAD_MAX_REDIRECTS) {
+      throw new DownloadError(`Too many redirects downloading ${url} (limit ${config.DOWNLOAD_MAX_REDIRECTS})`, false);
+    }
+    currentUrl = new URL(location, currentUrl);
+  }
+}
+
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof DownloadError) return error.retryable;
+  if ((error as NodeJS.ErrnoException)?.code === BLOCKED_ERROR_CODE) return false;
+  // Network errors, resets and stalled transfers
+  return true;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+async function fileSize(filepath: string): Promise<number> {
+  try {
+    return (await fs.promises.stat(filepath)).size;
+  } catch {
+    return 0;
+  }
+}
+
+// Stream a URL to disk, enforcing the URL policy, DOWNLOAD_TIMEOUT_MS (per
+// attempt) and MAX_FILE_SIZE. Failed attempts are retried with exponential
+// backoff up to DOWNLOAD_MAX_ATTEMPTS, resuming the partial file with an HTTP
+// Range request when the server supports it. The file is written to
+// "<filepath>.part" and only renamed into place once complete, so a crash
+// never leaves a truncated file behind.
+export async function downloadToFile(url: string, filepath: string, options: DownloadOptions = {}): Promise<DownloadResult> {
+  const partialPath = `${filepath}.part`;
+  await fs.promises.rm(partialPath, { force: true });
+
+  // ETag or Last-Modified of the partial file, required to resume it safely
+  let resumeValidator: string | null = null;
+
+  for (let attempt = 1; ; attempt++) {
+    const timeout = AbortSignal.timeout(config.DOWNLOAD_TIMEOUT_MS);
+    const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+
+    try {
+      const existingBytes = resumeValidator ? await fileSize(partialPath) : 0;
+      const headers: Record<string, string> = {};
+      if (existingBytes > 0 && resumeValidator) {
+        headers['Range'] = `bytes=${existingBytes}-`;
+        headers['If-Range'] = resumeValidator;
+      } else {
+        if (options.ifNoneMatch) headers['If-None-Match'] = options.ifNoneMatch;
+        if (options.ifModifiedSince) headers['If-Modified-Since'] = options.ifModifiedSince;
+      }
+
+      const response = await fetchWithPolicy(url, signal, headers);
+      const etag = response.headers.get('etag');
+      const lastModified = response.headers.get('last-modified');
+
+      if (response.status === 304) {
+        response.body?.resume();
+        return { bytes: 0, etag: etag ?? options.ifNoneMatch ?? null, lastModified, notModified: true };
+      }
+      if (!response.ok || !response.body) {
+        response.body?.resume();
+        throw new DownloadError(
+          `Failed to download ${url}: ${response.status} ${response.statusText}`,
+          RETRYABLE_STATUSES.has(response.status)
+        );
+      }
+
+      // 206 continues the partial file; anything else starts it over
+      const resumed = response.status === 206 &&
+        existingBytes > 0 &&
+        (response.headers.get('content-range') ?? '').startsWith(`bytes ${existingBytes}-`);
+      const startBytes = resumed ? existingBytes : 0;
+      if (response.status === 206 && !resumed) {
+        response.body.resume();
+        resumeValidator = null;
+        throw new DownloadError(`Unexpected partial response resuming ${url}`, true);
+      }
+
+      const declaredSize = startBytes + Number(response.headers.get('content-length'));
+      if (declaredSize > MAX_DOWNLOAD_BYTES) {
+        response.body.resume();
+        throw new DownloadError(`File at ${url} is too large: ${declaredSize} bytes (limit ${config.MAX_FILE_SIZE})`, false);
+      }
+      if (!resumed) {
+        options.validateResponse?.(response);
+      }
+      // Weak ETags can't be used with If-Range
+      resumeValidator = etag && !etag.startsWith('W/') ? etag : lastModified;
+
+      let bytes = startBytes;
+      const sizeLimit = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          bytes += chunk.length;
+          if (bytes > MAX_DOWNLOAD_BYTES) {
+            callback(new DownloadError(`File at ${url} is too large: over ${config.MAX_FILE_SIZE}`, false));
+          } else {
+            callback(null, chunk);
+          }
+        }
+      });
+
+      if (resumed) {
+        console.log(`⏯️ Resuming ${url} at ${startBytes} bytes`);
+      }
+      await pipeline(
+        response.body,
+        sizeLimit,
+        fs.createWriteStream(partialPath, { flags: resumed ? 'a' : 'w' }),
+        { signal }
+      );
+      await fs.promises.rename(partialPath, filepath);
+      return { bytes, etag, lastModified, notModified: false };
+    } catch (caught) {
+      let error = caught;
+      // Report the timeout rather than a generic abort, unless the job itself was cancelled
+      if (timeout.aborted && !options.signal?.aborted) {
+        error = new DownloadError(`Download of ${url} timed out after ${config.DOWNLOAD_TIMEOUT_MS}ms`, true);
+      }
+
+      if (options.signal?.aborted || !isRetryable(error) || attempt >= config.DOWNLOAD_MAX_ATTEMPTS) {
+        await fs.promises.rm(partialPath, { force: true });
+        throw error;
+      }
+
+      const delayMs = config.DOWNLOAD_RETRY_BASE_MS * 2 ** (attempt - 1);
+      console.warn(`⚠️ Download attempt ${attempt}/${config.DOWNLOAD_MAX_ATTEMPTS} for ${url} failed (${error instanceof Error ? error.message : error}), retrying in ${delayMs}ms`);
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import type { JobWarning, Song, SongProbe } from '@shared/schema';
+
+function formatSeconds(seconds: number): string {
+  return `${Math.round(seconds * 10) / 10}s`;
+}
+
+// Compare each song's declared length with the duration ffprobe measured.
+// Songs off by more than toleranceSeconds produce a duration_mismatch warning.
+export function reconcileDurations(songs: Song[], probes: SongProbe[], toleranceSeconds: number): JobWarning[] {
+  const warnings: JobWarning[] = [];
+
+  for (const probe of probes) {
+    const song = songs[probe.song_index];
+    const difference = probe.duration_seconds - song.length;
+    if (Math.abs(difference) <= toleranceSeconds) continue;
+
+    warnings.push({
+      code: 'duration_mismatch',
+      message: `Song ${probe.song_index + 1} (${song.file_url}) is ${formatSeconds(probe.duration_seconds)} long ` +
+        `but was declared as ${formatSeconds(song.length)} (${difference > 0 ? '+' : '-'}${formatSeconds(Math.abs(difference))})`,
+      song_index: probe.song_index,
+      declared_seconds: song.length,
+      measured_seconds: probe.duration_seconds,
+    });
+  }
+
+  return warnings;
+}
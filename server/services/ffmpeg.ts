@@ -0,0 +1,280 @@
+import { execFile, spawn } from 'child_process';
+import type { AudioFormat } from '@shared/schema';
+
+export interface FFmpegProgress {
+  outTimeSeconds: number;
+  percent: number;
+  speed: number | null;
+  etaSeconds: number | null;
+}
+
+// loudnorm target and first-pass measurement, as used by the second pass
+export interface LoudnormTarget {
+  integratedLufs: number;
+  truePeakDbtp: number;
+  loudnessRange: number;
+}
+
+export interface LoudnessMeasurement {
+  inputI: number;
+  inputTp: number;
+  inputLra: number;
+  inputThresh: number;
+  targetOffset: number;
+  outputI: number;
+  outputTp: number;
+}
+
+export interface FFmpegRunOptions {
+  cwd: string;
+  signal?: AbortSignal;
+  // Expected output duration, used to turn out_time into a percentage
+  durationSeconds?: number;
+  onProgress?: (progress: FFmpegProgress) => void;
+}
+
+// How much of stderr to keep for error messages
+const STDERR_TAIL_BYTES = 4096;
+
+// Stream details of an accepted song file
+export interface AudioProbe {
+  format: AudioFormat;
+  codec: string;
+  sampleRate: number;
+  channels: number;
+  durationSeconds: number;
+  bitRate: number | null;
+}
+
+// Accepted containers: ffprobe format name and the audio codecs allowed in it
+const AUDIO_FORMATS: { format: AudioFormat; formatName: string; codecs: (codec: string) => boolean }[] = [
+  { format: 'mp3', formatName: 'mp3', codecs: codec => codec === 'mp3' },
+  { format: 'wav', formatName: 'wav', codecs: codec => codec.startsWith('pcm_') },
+  { format: 'flac', formatName: 'flac', codecs: codec => codec === 'flac' },
+  { format: 'ogg', formatName: 'ogg', codecs: codec => ['vorbis', 'opus', 'flac'].includes(codec) },
+  { format: 'm4a', formatName: 'mov,mp4,m4a,3gp,3g2,mj2', codecs: codec => ['aac', 'alac'].includes(codec) },
+];
+
+// Probe a song with FFprobe and check it is a supported audio file.
+// Rejects with a readable reason when it isn't (HTML error pages, video, unknown codecs).
+export function probeAudio(filepath: string, signal?: AbortSignal): Promise<AudioProbe> {
+  return new Promise((resolve, reject) => {
+    execFile('ffprobe', [
+      '-v', 'error',
+      '-show_entries', 'format=format_name,duration,bit_rate:stream=codec_type,codec_name,sample_rate,channels,duration',
+      '-of', 'json', filepath
+    ],
+      { signal },
+      (error, stdout, stderr) => {
+        if (error) {
+          // ffprobe's own message, e.g. "Invalid data found when processing input"
+          const reason = stderr.trim().split('\n').pop()?.replace(`${filepath}: `, '');
+          reject(new Error(reason ? `not an audio file (${reason})` : `ffprobe failed: ${error.message}`));
+          return;
+        }
+
+        let output: { format?: Record<string, string>; streams?: Record<string, string | number>[] };
+        try {
+          output = JSON.parse(stdout);
+        } catch {
+          reject(new Error('could not parse ffprobe output'));
+          return;
+        }
+
+        const formatName = output.format?.format_name ?? 'unknown';
+        const stream = output.streams?.find(candidate => candidate.codec_type === 'audio');
+        if (!stream) {
+          reject(new Error(`no audio stream found (format ${formatName})`));
+          return;
+        }
+
+        const codec = String(stream.codec_name);
+        const accepted = AUDIO_FORMATS.find(entry => entry.formatName === formatName);
+        if (!accepted) {
+          reject(new Error(`unsupported format ${formatName}, expected MP3, WAV, FLAC, OGG or M4A`));
+          return;
+        }
+        if (!accepted.codecs(codec)) {
+          reject(new Error(`unsupported codec ${codec} in ${accepted.format.toUpperCase()} file`));
+          return;
+        }
+
+        const durationSeconds = parseFloat(output.format?.duration ?? String(stream.duration));
+        if (!Number.isFinite(durationSeconds) || durationSeconds <= 0) {
+          reject(new Error('could not determine duration'));
+          return;
+        }
+
+        const bitRate = parseInt(output.format?.bit_rate ?? '', 10);
+        resolve({
+          format: accepted.format,
+          codec,
+          sampleRate: Number(stream.sample_rate),
+          channels: Number(stream.channels),
+          durationSeconds,
+          bitRate: Number.isFinite(bitRate) ? bitRate : null,
+        });
+      });
+  });
+}
+
+// Seconds for filter options and arguments, in fixed point: FFmpeg doesn't
+// accept the exponent notation String() gives very small numbers
+export function formatSeconds(seconds: number): string {
+  return seconds.toFixed(3);
+}
+
+function loudnormArgs(target: LoudnormTarget): string {
+  return `I=${target.integratedLufs}:TP=${target.truePeakDbtp}:LRA=${target.loudnessRange}`;
+}
+
+// First loudnorm pass: decode the whole file and read the JSON summary loudnorm prints to stderr
+export function measureLoudness(filepath: string, target: LoudnormTarget, signal?: AbortSignal): Promise<LoudnessMeasurement> {
+  return new Promise((resolve, reject) => {
+    execFile('ffmpeg', [
+      '-hide_banner', '-nostats', '-i', filepath,
+      '-af', `loudnorm=${loudnormArgs(target)}:print_format=json`,
+      '-vn', '-f', 'null', '-'
+    ],
+      { signal, maxBuffer: 10 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+
+        const json = stderr.slice(stderr.lastIndexOf('{'), stderr.lastIndexOf('}') + 1);
+        try {
+          const fields = JSON.parse(json);
+          const measurement: LoudnessMeasurement = {
+            inputI: parseFloat(fields.input_i),
+            inputTp: parseFloat(fields.input_tp),
+            inputLra: parseFloat(fields.input_lra),
+            inputThresh: parseFloat(fields.input_thresh),
+            targetOffset: parseFloat(fields.target_offset),
+            outputI: parseFloat(fields.output_i),
+            outputTp: parseFloat(fields.output_tp),
+          };
+          // Silent input measures as -inf, which the second pass can't use
+          if (!Object.values(measurement).every(Number.isFinite)) {
+            reject(new Error(`Could not measure loudness of ${filepath} (silent audio?)`));
+            return;
+          }
+          resolve(measurement);
+        } catch {
+          reject(new Error(`Could not parse loudnorm output for ${filepath}`));
+        }
+      });
+  });
+}
+
+// Second loudnorm pass for one input, using the first pass's measurement for linear normalization
+export function loudnormFilter(target: LoudnormTarget, measurement: LoudnessMeasurement): string {
+  return `loudnorm=${loudnormArgs(target)}` +
+    `:measured_I=${measurement.inputI}:measured_TP=${measurement.inputTp}` +
+    `:measured_LRA=${measurement.inputLra}:measured_thresh=${measurement.inputThresh}` +
+    `:offset=${measurement.targetOffset}:linear=true`;
+}
+
+// Turn one "-progress" block (key=value lines ending in progress=...) into a progress update
+function parseProgressBlock(fields: Map<string, string>, startedAt: number, durationSeconds?: number): FFmpegProgress | null {
+  // Despite the name, out_time_ms is reported in microseconds
+  const outTimeUs = Number(fields.get('out_time_us') ?? fields.get('out_time_ms'));
+  if (!Number.isFinite(outTimeUs) || outTimeUs < 0) return null;
+
+  const outTimeSeconds = outTimeUs / 1_000_000;
+  const speedMatch = fields.get('speed')?.match(/^([\d.]+)x$/);
+  const speed = speedMatch ? parseFloat(speedMatch[1]) : null;
+
+  if (!durationSeconds) {
+    return { outTimeSeconds, percent: 0, speed, etaSeconds: null };
+  }
+
+  const fraction = Math.min(outTimeSeconds / durationSeconds, 1);
+  let etaSeconds: number | null = null;
+  if (speed && speed > 0) {
+    etaSeconds = (durationSeconds - outTimeSeconds) / speed;
+  } else if (fraction > 0) {
+    const elapsedSeconds = (Date.now() - startedAt) / 1000;
+    etaSeconds = elapsedSeconds * (1 - fraction) / fraction;
+  }
+
+  return {
+    outTimeSeconds,
+    percent: fraction * 100,
+    speed,
+    etaSeconds: etaSeconds === null ? null : Math.max(0, Math.round(etaSeconds)),
+  };
+}
+
+// Run FFmpeg without a shell, reporting progress parsed from "-progress pipe:1".
+// Aborting the signal kills the FFmpeg process.
+export function runFFmpeg(args: string[], options: FFmpegRunOptions): Promise<void> {
+  const { cwd, signal, durationSeconds, onProgress } = options;
+
+  return new Promise((resolve, reject) => {
+    console.log('🎥 Executing FFmpeg...');
+    const startedAt = Date.now();
+    const child = spawn('ffmpeg', ['-hide_banner', '-nostats', '-progress', 'pipe:1', ...args], {
+      cwd,
+      signal,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    let settled = false;
+    let stdoutBuffer = '';
+    let stderrTail = '';
+    let fields = new Map<string, string>();
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => {
+      stdoutBuffer += chunk;
+      const lines = stdoutBuffer.split('\n');
+      stdoutBuffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const separator = line.indexOf('=');
+        if (separator === -1) continue;
+
+        const key = line.slice(0, separator).trim();
+        const value = line.slice(separator + 1).trim();
+        fields.set(key, value);
+
+        if (key === 'progress') {
+          const progress = parseProgressBlock(fields, startedAt, durationSeconds);
+          if (progress && onProgress) onProgress(progress);
+          fields = new Map();
+        }
+      }
+    });
+
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (chunk: string) => {
+      stderrTail = (stderrTail + chunk).slice(-STDERR_TAIL_BYTES);
+    });
+
+    child.on('error', (error) => {
+      if (settled) return;
+      settled = true;
+      if (signal?.aborted) {
+        console.log('🛑 FFmpeg killed: job cancelled');
+      } else {
+        console.error('❌ FFmpeg error:', error);
+      }
+      reject(error);
+    });
+
+    child.on('close', (code, killSignal) => {
+      if (settled) return;
+      settled = true;
+      if (code === 0) {
+        console.log(`✅ FFmpeg completed successfully in ${Math.round((Date.now() - startedAt) / 1000)}s`);
+        resolve();
+      } else {
+        console.error('❌ FFmpeg stderr:', stderrTail);
+        const lastLine = stderrTail.trim().split('\n').pop() || 'no output';
+        reject(new Error(`FFmpeg exited with ${killSignal ? `signal ${killSignal}` : `code ${code}`}: ${lastLine}`));
+      }
+    });
+  });
+}
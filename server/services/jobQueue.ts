@@ -0,0 +1,151 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { insertVideoJobSchema } from '@shared/schema';
+import { config } from '../config/environment';
+import { storage, type IStorage } from '../storage';
+import { processVideo } from './videoProcessor';
+
+interface PendingJob {
+  jobId: string;
+  priority: number;
+  sequence: number;
+  resolve: () => void;
+}
+
+export interface QueueState {
+  paused: boolean;
+  concurrency: number;
+  running: string[];
+  pending: { job_id: string; priority: number; position: number }[];
+}
+
+// In-process job queue: dispatches at most `concurrency` jobs at a time,
+// highest priority first and FIFO within the same priority
+export class JobQueue {
+  private pending: PendingJob[] = [];
+  private running = new Map<string, AbortController>();
+  private paused = false;
+  private sequence = 0;
+
+  constructor(private storage: IStorage, private concurrency: number) {}
+
+  // Resolves once the job has finished processing (successfully or not)
+  enqueue(jobId: string, priority: number = 0): Promise<void> {
+    return new Promise((resolve) => {
+      this.pending.push({ jobId, priority, sequence: this.sequence++, resolve });
+      this.pending.sort((a, b) => b.priority - a.priority || a.sequence - b.sequence);
+      console.log(`📥 Job ${jobId} queued (priority ${priority}, position ${this.getPosition(jobId)})`);
+      this.dispatch();
+    });
+  }
+
+  // Drop a job that has not started yet; returns false if it is not pending
+  remove(jobId: string): boolean {
+    const index = this.pending.findIndex(entry => entry.jobId === jobId);
+    if (index === -1) return false;
+
+    const [entry] = this.pending.splice(index, 1);
+    entry.resolve();
+    return true;
+  }
+
+  // 1-based position among waiting jobs, or null if the job is not waiting
+  getPosition(jobId: string): number | null {
+    const index = this.pending.findIndex(entry => entry.jobId === jobId);
+    return index === -1 ? null : index + 1;
+  }
+
+  isRunning(jobId: string): boolean {
+    return this.running.has(jobId);
+  }
+
+  // Stop a job wherever it is: drop it from the queue or abort its processing
+  cancel(jobId: string): boolean {
+    if (this.remove(jobId)) {
+      // A job re-queued by recovery may still have temp files from its interrupted run
+      fs.rm(path.join(config.TEMP_DIR, jobId), { recursive: true, force: true }).catch(error => {
+        console.error(`⚠️ Failed to clean up temp files for cancelled job ${jobId}:`, error);
+      });
+      return true;
+    }
+
+    const controller = this.running.get(jobId);
+    if (!controller) return false;
+
+    console.log(`🛑 Aborting running job ${jobId}`);
+    controller.abort();
+    return true;
+  }
+
+  pause() {
+    this.paused = true;
+    console.log('⏸️ Job queue paused');
+  }
+
+  resume() {
+    this.paused = false;
+    console.log('▶️ Job queue resumed');
+    this.dispatch();
+  }
+
+  getState(): QueueState {
+    return {
+      paused: this.paused,
+      concurrency: this.concurrency,
+      running: Array.from(this.running.keys()),
+      pending: this.pending.map((entry, index) => ({
+        job_id: entry.jobId,
+        priority: entry.priority,
+        position: index + 1,
+      })),
+    };
+  }
+
+  private dispatch() {
+    while (!this.paused && this.running.size < this.concurrency && this.pending.length > 0) {
+      const entry = this.pending.shift()!;
+      const controller = new AbortController();
+      this.running.set(entry.jobId, controller);
+
+      this.run(entry.jobId, controller.signal)
+        .catch((error) => {
+          console.error(`❌ Job ${entry.jobId} failed:`, error);
+        })
+        .finally(() => {
+          this.running.delete(entry.jobId);
+          entry.resolve();
+          this.dispatch();
+        });
+    }
+  }
+
+  private async run(jobId: string, signal: AbortSignal) {
+    const job = await this.storage.getVideoJob(jobId);
+
+    // The job may have been deleted or cancelled while it was waiting
+    if (!job || job.status !== 'queued') {
+      console.log(`⏭️ Skipping job ${jobId}: no longer queued`);
+      return;
+    }
+
+    // A job whose stored data no longer validates (e.g. after a limit was
+    // tightened) can never run, so it fails instead of waiting forever
+    const request = insertVideoJobSchema.safeParse(job);
+    if (!request.success) {
+      const details = request.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; ');
+      console.error(`❌ Job ${jobId} has invalid stored data: ${details}`);
+      await this.storage.updateVideoJob(jobId, {
+        status: 'failed',
+        error_message: `Stored job data is invalid: ${details}`,
+        failed_at: new Date()
+      });
+      return;
+    }
+
+    console.log(`🎬 Dispatching job ${jobId} (${this.running.size}/${this.concurrency} slots in use)`);
+    await this.storage.updateVideoJob(jobId, { attempts: job.attempts + 1 });
+    await processVideo(jobId, request.data, this.storage, signal);
+  }
+}
+
+export const jobQueue = new JobQueue(storage, config.MAX_CONCURRENT_JOBS);
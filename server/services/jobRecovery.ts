@@ -0,0 +1,147 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { insertVideoJobSchema, type VideoJob } from '@shared/schema';
+import { config } from '../config/environment';
+import type { IStorage } from '../storage';
+import { isNonEmptyFile } from '../utils/files';
+import type { JobQueue } from './jobQueue';
+
+interface JobArtifacts {
+  exists: boolean;
+  thumbnail: boolean;
+  songs: boolean[];
+  finalAudio: boolean;
+}
+
+// Look at what an interrupted run left behind in TEMP_DIR/<jobId>
+async function inspectArtifacts(jobDir: string, songCount: number): Promise<JobArtifacts> {
+  const exists = await fs.stat(jobDir).then(stats => stats.isDirectory()).catch(() => false);
+  if (!exists) {
+    return { exists, thumbnail: false, songs: [], finalAudio: false };
+  }
+
+  return {
+    exists,
+    thumbnail: await isNonEmptyFile(path.join(jobDir, 'thumbnail.png')),
+    songs: await Promise.all(
+      Array.from({ length: songCount }, (_, i) => isNonEmptyFile(path.join(jobDir, `song_${i}`)))
+    ),
+    finalAudio: await isNonEmptyFile(path.join(jobDir, 'final_audio.mp4')),
+  };
+}
+
+// Remove leftovers that are never safe to reuse: partial downloads, partial
+// encodes, and anything produced by a stage the job had not reached.
+// audio_filter.txt and concat.txt are cheap to rebuild, so they are always regenerated.
+async function discardStaleArtifacts(job: VideoJob, jobDir: string, artifacts: JobArtifacts) {
+  const entries = await fs.readdir(jobDir);
+  const stale = entries.filter(name =>
+    name.endsWith('.part') ||
+    name.endsWith('.part.mp4') ||
+    name.endsWith('.part.png') ||
+    name === `${job.id}.mp4`
+  );
+
+  // A final audio track can only be trusted if the job got past the audio stage
+  if (artifacts.finalAudio && job.status !== 'creating_video') {
+    stale.push('final_audio.mp4');
+    artifacts.finalAudio = false;
+  }
+
+  await Promise.all(stale.map(name => fs.rm(path.join(jobDir, name), { force: true })));
+}
+
+async function failJob(storage: IStorage, jobId: string, message: string) {
+  console.error(`❌ Job ${jobId} could not be recovered: ${message}`);
+  await storage.updateVideoJob(jobId, {
+    status: 'failed',
+    error_message: message,
+    failed_at: new Date()
+  });
+}
+
+// Remove temp directories that no longer belong to a job we are going to run
+async function removeOrphanedTempDirs(knownJobIds: Set<string>) {
+  if (!config.CLEANUP_TEMP_FILES) return;
+
+  let entries: string[];
+  try {
+    entries = await fs.readdir(config.TEMP_DIR);
+  } catch {
+    return;
+  }
+
+  for (const name of entries) {
+    if (knownJobIds.has(name)) continue;
+    try {
+      await fs.rm(path.join(config.TEMP_DIR, name), { recursive: true, force: true });
+      console.log(`🧹 Removed orphaned temp directory: ${name}`);
+    } catch (error) {
+      console.error(`⚠️ Failed to remove orphaned temp directory ${name}:`, error);
+    }
+  }
+}
+
+// Startup pass: re-queue jobs that were interrupted by a restart, reusing
+// whatever artifacts are still valid, and fail the ones we cannot resume
+export async function recoverInterruptedJobs(storage: IStorage, queue: JobQueue) {
+  const jobs = await storage.getActiveVideoJobs();
+  const resumableJobIds = new Set<string>();
+
+  if (jobs.length > 0) {
+    console.log(`🔁 Found ${jobs.length} interrupted job(s), attempting recovery...`);
+  }
+
+  // Oldest first so recovered jobs keep their original queue order
+  const ordered = [...jobs].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  for (const job of ordered) {
+    try {
+      const request = insertVideoJobSchema.safeParse(job);
+      if (!request.success) {
+        await failJob(storage, job.id, 'Interrupted by server restart: stored job data is invalid and cannot be resumed');
+        continue;
+      }
+
+      if (job.status !== 'queued' && job.attempts >= config.MAX_JOB_ATTEMPTS) {
+        await failJob(
+          storage,
+          job.id,
+          `Interrupted by server restart during "${job.status}" after ${job.attempts} attempt(s); giving up`
+        );
+        continue;
+      }
+
+      const jobDir = path.join(config.TEMP_DIR, job.id);
+      const artifacts = await inspectArtifacts(jobDir, request.data.songs.length);
+      if (artifacts.exists) {
+        await discardStaleArtifacts(job, jobDir, artifacts);
+      }
+
+      const reusedSongs = artifacts.songs.filter(Boolean).length;
+      console.log(
+        `🔁 Re-queuing job ${job.id} (was "${job.status}"): ` +
+        `reusing ${reusedSongs}/${request.data.songs.length} songs` +
+        `${artifacts.thumbnail ? ', thumbnail' : ''}` +
+        `${artifacts.finalAudio ? ', final audio' : ''}`
+      );
+
+      await storage.updateVideoJob(job.id, {
+        status: 'queued',
+        progress: 0,
+        eta_at: null,
+        error_message: null
+      });
+      resumableJobIds.add(job.id);
+      queue.enqueue(job.id, job.priority);
+    } catch (error) {
+      await failJob(
+        storage,
+        job.id,
+        `Interrupted by server restart and recovery failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  await removeOrphanedTempDirs(resumableJobIds);
+}
@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import type { MotionEffect } from '@shared/schema';
+import { VIDEO_HEIGHT, VIDEO_WIDTH } from './thumbnail';
+
+export type MotionDirection = Exclude<MotionEffect, 'none' | 'random'>;
+
+const MOTION_DIRECTIONS: MotionDirection[] = ['zoom_in', 'zoom_out', 'pan_left', 'pan_right', 'pan_up', 'pan_down'];
+
+// Extra zoom reached at the end of a zoom, and held throughout a pan
+const MOTION_ZOOM = 0.15;
+
+// Shots longer than two cycles swing back and forth over this period
+// instead of creeping along for the whole shot
+const MOTION_CYCLE_SECONDS = 30;
+
+// zoompan places its crop on whole input pixels; upscaling first keeps
+// slow movement from juddering
+const MOTION_OVERSAMPLE = 2;
+
+// The movement for one shot. random picks a direction from the seed (the job
+// id) and the shot's index, so a retried job renders the same video.
+export function resolveMotion(effect: Exclude<MotionEffect, 'none'>, seed: string, shotIndex: number): MotionDirection {
+  if (effect !== 'random') return effect;
+  const digest = crypto.createHash('sha256').update(`${seed}:${shotIndex}`).digest();
+  return MOTION_DIRECTIONS[digest[0] % MOTION_DIRECTIONS.length];
+}
+
+// Filters turning a single frame-sized image into durationSeconds of moving
+// video at frameRate. Expressions are quoted, as some contain commas.
+export function buildMotionFilter(direction: MotionDirection, durationSeconds: number, frameRate: number): string {
+  const frames = Math.max(1, Math.round(durationSeconds * frameRate));
+  const cycleFrames = Math.round(MOTION_CYCLE_SECONDS * frameRate);
+
+  // Movement progress from 0 to 1 at output frame "on"
+  const progress = frames <= 2 * cycleFrames
+    ? `on/${frames}`
+    : `(1-abs(1-mod(on,${2 * cycleFrames})/${cycleFrames}))`;
+
+  const centreX = '(iw-iw/zoom)/2';
+  const centreY = '(ih-ih/zoom)/2';
+  let zoom = `${1 + MOTION_ZOOM}`;
+  let x = centreX;
+  let y = centreY;
+  switch (direction) {
+    case 'zoom_in':
+      zoom = `1+${MOTION_ZOOM}*${progress}`;
+      break;
+    case 'zoom_out':
+      zoom = `1+${MOTION_ZOOM}*(1-${progress})`;
+      break;
+    case 'pan_left':
+      x = `(iw-iw/zoom)*(1-${progress})`;
+      break;
+    case 'pan_right':
+      x = `(iw-iw/zoom)*${progress}`;
+      break;
+    case 'pan_up':
+      y = `(ih-ih/zoom)*(1-${progress})`;
+      break;
+    case 'pan_down':
+      y = `(ih-ih/zoom)*${progress}`;
+      break;
+  }
+
+  return [
+    `scale=${VIDEO_WIDTH * MOTION_OVERSAMPLE}:${VIDEO_HEIGHT * MOTION_OVERSAMPLE}`,
+    `zoompan=z='${zoom}':x='${x}':y='${y}':d=${frames}:s=${VIDEO_WIDTH}x${VIDEO_HEIGHT}:fps=${frameRate}`,
+  ].join(',');
+}
@@ -0,0 +1,53 @@
+import type { NowPlaying, Song } from '@shared/schema';
+import { formatSeconds } from './ffmpeg';
+import type { PlaylistPlan } from './playlistPlanner';
+import { buildDrawtext, overlayText } from './textOverlay';
+
+// When a song's text is on screen: from its start in the playlist until the next song starts
+export interface NowPlayingWindow {
+  songIndex: number;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+// "Artist – Title", either one alone, or null for a song with neither
+export function nowPlayingText(song: Song): string | null {
+  const text = overlayText([song.artist, song.title].map(overlayText).filter(Boolean).join(' – '));
+  return text || null;
+}
+
+// Windows for every playlist entry whose song has text to show
+export function planNowPlaying(plan: PlaylistPlan, songs: Song[]): NowPlayingWindow[] {
+  return plan.entries.flatMap((entry, i) => {
+    if (!nowPlayingText(songs[entry.songIndex])) return [];
+    const next = plan.entries[i + 1];
+    return [{
+      songIndex: entry.songIndex,
+      startSeconds: entry.startSeconds,
+      endSeconds: next ? next.startSeconds : plan.totalDurationSeconds,
+    }];
+  });
+}
+
+// Chain of drawtext filters, one per window, each fading in and out.
+// textFiles maps a song index to the file holding its text.
+export function buildNowPlayingFilter(settings: NowPlaying, windows: NowPlayingWindow[], textFiles: Map<number, string>): string {
+  return windows.map(window => {
+    const start = formatSeconds(window.startSeconds);
+    const end = formatSeconds(window.endSeconds);
+    const fade = Math.min(settings.fade_seconds, (window.endSeconds - window.startSeconds) / 2);
+    const fadeSeconds = formatSeconds(fade);
+    return buildDrawtext({
+      textFile: textFiles.get(window.songIndex)!,
+      font: settings.font,
+      fontSize: settings.font_size,
+      color: settings.color,
+      box: settings.box ? { color: settings.box_color, opacity: settings.box_opacity } : null,
+      position: settings.position,
+      enable: `between(t,${start},${end})`,
+      alpha: fade > 0
+        ? `if(lt(t,${start}+${fadeSeconds}),(t-${start})/${fadeSeconds},if(gt(t,${end}-${fadeSeconds}),(${end}-t)/${fadeSeconds},1))`
+        : undefined,
+    });
+  }).join(',');
+}
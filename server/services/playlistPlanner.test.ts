@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { planPlaylist } from './playlistPlanner';
+
+describe('planPlaylist', () => {
+  describe('loop_to_duration', () => {
+    it('loops the playlist and trims the last song to the exact target', () => {
+      const plan = planPlaylist([100, 200, 300], { mode: 'loop_to_duration', targetDurationSeconds: 1000 });
+
+      expect(plan.entries).toEqual([
+        { songIndex: 0, loop: 0, startSeconds: 0, durationSeconds: 100, trimmed: false },
+        { songIndex: 1, loop: 0, startSeconds: 100, durationSeconds: 200, trimmed: false },
+        { songIndex: 2, loop: 0, startSeconds: 300, durationSeconds: 300, trimmed: false },
+        { songIndex: 0, loop: 1, startSeconds: 600, durationSeconds: 100, trimmed: false },
+        { songIndex: 1, loop: 1, startSeconds: 700, durationSeconds: 200, trimmed: false },
+        { songIndex: 2, loop: 1, startSeconds: 900, durationSeconds: 100, trimmed: true },
+      ]);
+      expect(plan.totalDurationSeconds).toBe(1000);
+      expect(plan.loops).toBe(2);
+    });
+
+    it('overlaps entries by the crossfade, across loop boundaries too', () => {
+      const plan = planPlaylist([100, 100], { mode: 'loop_to_duration', targetDurationSeconds: 250, crossfadeSeconds: 10 });
+
+      expect(plan.entries).toEqual([
+        { songIndex: 0, loop: 0, startSeconds: 0, durationSeconds: 100, trimmed: false },
+        { songIndex: 1, loop: 0, startSeconds: 90, durationSeconds: 100, trimmed: false },
+        { songIndex: 0, loop: 1, startSeconds: 180, durationSeconds: 70, trimmed: true },
+      ]);
+      expect(plan.totalDurationSeconds).toBe(250);
+    });
+
+    it('does not start a song that would end inside the previous crossfade', () => {
+      const plan = planPlaylist([100], { mode: 'loop_to_duration', targetDurationSeconds: 190, crossfadeSeconds: 10 });
+
+      expect(plan.entries.map(entry => entry.startSeconds)).toEqual([0, 90]);
+      expect(plan.entries[1]).toMatchObject({ durationSeconds: 100, trimmed: false });
+      expect(plan.totalDurationSeconds).toBe(190);
+    });
+
+    it('separates entries by the gap', () => {
+      const plan = planPlaylist([100], { mode: 'loop_to_duration', targetDurationSeconds: 300, gapSeconds: 5 });
+
+      expect(plan.entries.map(entry => [entry.startSeconds, entry.durationSeconds])).toEqual([
+        [0, 100],
+        [105, 100],
+        [210, 90],
+      ]);
+      expect(plan.totalDurationSeconds).toBe(300);
+      expect(plan.loops).toBe(3);
+    });
+
+    it('caps the number of loops', () => {
+      const plan = planPlaylist([1], { mode: 'loop_to_duration', targetDurationSeconds: 5000 });
+
+      expect(plan.loops).toBe(1000);
+      expect(plan.totalDurationSeconds).toBe(1000);
+    });
+  });
+
+  describe('play_once', () => {
+    it('plays every song once when they fit the target', () => {
+      const plan = planPlaylist([100, 200], { mode: 'play_once', targetDurationSeconds: 1000 });
+
+      expect(plan.entries.map(entry => entry.songIndex)).toEqual([0, 1]);
+      expect(plan.entries.every(entry => !entry.trimmed)).toBe(true);
+      expect(plan.totalDurationSeconds).toBe(300);
+      expect(plan.loops).toBe(1);
+    });
+
+    it('trims the playlist to the target', () => {
+      const plan = planPlaylist([100, 200, 300], { mode: 'play_once', targetDurationSeconds: 250 });
+
+      expect(plan.entries).toEqual([
+        { songIndex: 0, loop: 0, startSeconds: 0, durationSeconds: 100, trimmed: false },
+        { songIndex: 1, loop: 0, startSeconds: 100, durationSeconds: 150, trimmed: true },
+      ]);
+      expect(plan.totalDurationSeconds).toBe(250);
+    });
+  });
+
+  describe('loop_n_times', () => {
+    it('plays the playlist loopCount times', () => {
+      const plan = planPlaylist([60, 90], { mode: 'loop_n_times', targetDurationSeconds: 10000, loopCount: 3 });
+
+      expect(plan.entries.map(entry => [entry.loop, entry.songIndex])).toEqual([
+        [0, 0], [0, 1],
+        [1, 0], [1, 1],
+        [2, 0], [2, 1],
+      ]);
+      expect(plan.totalDurationSeconds).toBe(450);
+      expect(plan.loops).toBe(3);
+    });
+
+    it('requires a loop count', () => {
+      expect(() => planPlaylist([60], { mode: 'loop_n_times', targetDurationSeconds: 600 }))
+        .toThrow('loop_n_times requires a loop count of at least 1');
+      expect(() => planPlaylist([60], { mode: 'loop_n_times', targetDurationSeconds: 600, loopCount: 0 }))
+        .toThrow('loop_n_times requires a loop count of at least 1');
+    });
+  });
+
+  describe('validation', () => {
+    const options = { mode: 'loop_to_duration' as const, targetDurationSeconds: 600 };
+
+    it('rejects empty playlists and invalid durations', () => {
+      expect(() => planPlaylist([], options)).toThrow('Cannot plan a playlist without songs');
+      expect(() => planPlaylist([100, 0], options)).toThrow('Every song must have a positive duration');
+      expect(() => planPlaylist([100, NaN], options)).toThrow('Every song must have a positive duration');
+      expect(() => planPlaylist([100], { ...options, targetDurationSeconds: 0 })).toThrow('Target duration must be positive');
+    });
+
+    it('rejects invalid transitions', () => {
+      expect(() => planPlaylist([100], { ...options, gapSeconds: -1 })).toThrow('Crossfade and gap must not be negative');
+      expect(() => planPlaylist([100], { ...options, crossfadeSeconds: 5, gapSeconds: 5 }))
+        .toThrow('Crossfade and gap cannot be combined');
+      expect(() => planPlaylist([100, 10], { ...options, crossfadeSeconds: 10 }))
+        .toThrow('Every song must be longer than the 10s crossfade');
+    });
+  });
+});
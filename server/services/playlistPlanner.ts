@@ -0,0 +1,108 @@
+import type { LoopMode } from '@shared/schema';
+
+export interface PlaylistEntry {
+  songIndex: number;
+  loop: number; // 0-based pass through the playlist
+  startSeconds: number; // position in the output, after crossfades and gaps
+  durationSeconds: number; // may be shorter than the song when cut at the end
+  trimmed: boolean;
+}
+
+export interface PlaylistPlan {
+  entries: PlaylistEntry[];
+  totalDurationSeconds: number;
+  loops: number;
+}
+
+export interface PlaylistOptions {
+  mode: LoopMode;
+  targetDurationSeconds: number;
+  loopCount?: number | null;
+  // Overlap between consecutive entries (mutually exclusive with gapSeconds)
+  crossfadeSeconds?: number;
+  // Silence between consecutive entries
+  gapSeconds?: number;
+}
+
+// Loops are capped so a playlist of very short songs can't produce a huge plan
+const MAX_LOOPS = 1000;
+
+// Lay songs out back to back until the mode's end condition is met.
+// targetDurationSeconds is the exact length for loop_to_duration and an
+// upper bound for play_once / loop_n_times.
+export function planPlaylist(songDurations: number[], options: PlaylistOptions): PlaylistPlan {
+  const { mode, targetDurationSeconds } = options;
+  const crossfadeSeconds = options.crossfadeSeconds ?? 0;
+  const gapSeconds = options.gapSeconds ?? 0;
+
+  if (songDurations.length === 0) {
+    throw new Error('Cannot plan a playlist without songs');
+  }
+  if (songDurations.some(duration => !Number.isFinite(duration) || duration <= 0)) {
+    throw new Error('Every song must have a positive duration');
+  }
+  if (!(targetDurationSeconds > 0)) {
+    throw new Error('Target duration must be positive');
+  }
+  if (crossfadeSeconds < 0 || gapSeconds < 0) {
+    throw new Error('Crossfade and gap must not be negative');
+  }
+  if (crossfadeSeconds > 0 && gapSeconds > 0) {
+    throw new Error('Crossfade and gap cannot be combined');
+  }
+  // acrossfade needs both sides of a transition to be at least as long as the fade
+  if (crossfadeSeconds > 0 && songDurations.some(duration => duration <= crossfadeSeconds)) {
+    throw new Error(`Every song must be longer than the ${crossfadeSeconds}s crossfade`);
+  }
+
+  let maxLoops: number;
+  switch (mode) {
+    case 'play_once':
+      maxLoops = 1;
+      break;
+    case 'loop_n_times':
+      if (!options.loopCount || options.loopCount < 1) {
+        throw new Error('loop_n_times requires a loop count of at least 1');
+      }
+      maxLoops = options.loopCount;
+      break;
+    case 'loop_to_duration': {
+      // Each song adds its length minus the crossfade (or plus the gap) to the timeline
+      const playlistDuration = songDurations.reduce(
+        (sum, duration) => sum + duration - crossfadeSeconds + gapSeconds,
+        0
+      );
+      maxLoops = Math.ceil(targetDurationSeconds / playlistDuration);
+      break;
+    }
+  }
+  maxLoops = Math.min(maxLoops, MAX_LOOPS);
+
+  const entries: PlaylistEntry[] = [];
+  let currentDuration = 0;
+
+  outerLoop: for (let loop = 0; loop < maxLoops; loop++) {
+    for (let songIndex = 0; songIndex < songDurations.length; songIndex++) {
+      // Loop boundaries are transitions like any other
+      const startSeconds = entries.length === 0
+        ? 0
+        : currentDuration - crossfadeSeconds + gapSeconds;
+      const remaining = targetDurationSeconds - startSeconds;
+      // Stop once the next song would end inside the previous one's fade or the gap
+      if (remaining <= crossfadeSeconds) break outerLoop;
+
+      const songDuration = songDurations[songIndex];
+      const trimmed = songDuration > remaining;
+      const durationSeconds = trimmed ? remaining : songDuration;
+
+      entries.push({ songIndex, loop, startSeconds, durationSeconds, trimmed });
+      currentDuration = startSeconds + durationSeconds;
+    }
+  }
+
+  return {
+    entries,
+    totalDurationSeconds: currentDuration,
+    loops: entries.length === 0 ? 0 : entries[entries.length - 1].loop + 1,
+  };
+}
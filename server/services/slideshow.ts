@@ -0,0 +1,160 @@
+import type { MotionEffect, SlideTransition, SlideshowImage, Song } from '@shared/schema';
+import { formatSeconds } from './ffmpeg';
+import { buildMotionFilter, resolveMotion } from './motion';
+import type { PlaylistPlan } from './playlistPlanner';
+
+// One image on the video timeline
+export interface SlideshowSegment {
+  // Index into the job's slideshow image URLs (0 is the thumbnail)
+  imageIndex: number;
+  startSeconds: number;
+  durationSeconds: number;
+}
+
+export interface SlideshowOptions {
+  transition: SlideTransition;
+  transitionSeconds: number;
+  frameRate: number;
+  motion: MotionEffect;
+  // Seeds random motion (the job id)
+  motionSeed: string;
+}
+
+export interface SlideshowVideo {
+  // FFmpeg input arguments, one image input per segment
+  inputArgs: string[];
+  inputCount: number;
+  filterGraph: string;
+  outputLabel: string;
+}
+
+// Segments are capped so one filter graph doesn't open hundreds of inputs
+export const MAX_GRAPH_SEGMENTS = 200;
+
+const XFADE_TRANSITIONS: Record<Exclude<SlideTransition, 'cut'>, string> = {
+  crossfade: 'fade',
+  slide: 'slideleft',
+};
+
+// Every distinct image the job shows, thumbnail first
+export function slideshowImageUrls(job: { thumbnail_url: string; songs: Song[]; images?: SlideshowImage[] | null }): string[] {
+  const urls = [job.thumbnail_url];
+  if (job.images?.length) {
+    urls.push(...job.images.map(image => image.url));
+  } else {
+    urls.push(...job.songs.flatMap(song => song.image_url ? [song.image_url] : []));
+  }
+  return Array.from(new Set(urls));
+}
+
+// Lay the job's images out over the playlist: per-song images follow the
+// songs' start times, an images list is repeated with its own durations.
+// Neighbouring segments showing the same image are merged, and segments
+// shorter than minSegmentSeconds are folded into the one before them.
+export function planSlideshow(
+  plan: PlaylistPlan,
+  job: { thumbnail_url: string; songs: Song[]; images?: SlideshowImage[] | null },
+  minSegmentSeconds: number
+): SlideshowSegment[] {
+  const urls = slideshowImageUrls(job);
+  const totalSeconds = plan.totalDurationSeconds;
+  const raw: SlideshowSegment[] = [];
+
+  if (job.images?.length) {
+    const images = job.images;
+    for (let start = 0, i = 0; start < totalSeconds; i++) {
+      const image = images[i % images.length];
+      const durationSeconds = Math.min(image.duration_seconds, totalSeconds - start);
+      raw.push({ imageIndex: urls.indexOf(image.url), startSeconds: start, durationSeconds });
+      start += durationSeconds;
+    }
+  } else {
+    plan.entries.forEach((entry, i) => {
+      const imageUrl = job.songs[entry.songIndex].image_url;
+      const next = plan.entries[i + 1];
+      // A song's image stays up until the next song starts (or the video ends)
+      const endSeconds = next ? next.startSeconds : totalSeconds;
+      raw.push({
+        imageIndex: imageUrl ? urls.indexOf(imageUrl) : 0,
+        startSeconds: entry.startSeconds,
+        durationSeconds: endSeconds - entry.startSeconds,
+      });
+    });
+  }
+
+  const segments: SlideshowSegment[] = [];
+  for (const segment of raw) {
+    const previous = segments[segments.length - 1];
+    if (previous && (previous.imageIndex === segment.imageIndex || segment.durationSeconds < minSegmentSeconds)) {
+      previous.durationSeconds += segment.durationSeconds;
+    } else {
+      segments.push({ ...segment });
+    }
+  }
+  return segments;
+}
+
+// Concat demuxer list for hard cuts: each image for its duration. The last
+// file is listed twice, as the demuxer ignores the final duration otherwise.
+export function buildConcatList(segments: SlideshowSegment[], imageFiles: string[]): string {
+  const lines = segments.flatMap(segment => [
+    `file '${imageFiles[segment.imageIndex]}'`,
+    `duration ${formatSeconds(segment.durationSeconds)}`,
+  ]);
+  lines.push(`file '${imageFiles[segments[segments.length - 1].imageIndex]}'`);
+  return lines.join('\n') + '\n';
+}
+
+// Filter graph rendering every segment at options.frameRate, with Ken Burns
+// motion when enabled, joined with xfade or (for cut) the concat filter. Each
+// transition is centred on the boundary between two segments, so images
+// change in time with the audio.
+export function buildSlideshowGraph(
+  segments: SlideshowSegment[],
+  imageFiles: string[],
+  options: SlideshowOptions
+): SlideshowVideo {
+  if (segments.length > MAX_GRAPH_SEGMENTS) {
+    throw new Error(`Slideshow has ${segments.length} images to show, more than the ${MAX_GRAPH_SEGMENTS} supported with transitions or motion; use the cut transition without motion`);
+  }
+
+  const half = options.transition === 'cut' ? 0 : options.transitionSeconds / 2;
+  const inputArgs: string[] = [];
+  const chains: string[] = [];
+
+  segments.forEach((segment, i) => {
+    // Inputs overlap their neighbours by half a transition on each side
+    const lengthSeconds = segment.durationSeconds + (i > 0 ? half : 0) + (i < segments.length - 1 ? half : 0);
+    const toVideo = `scale=out_color_matrix=bt709:out_range=tv,format=yuv420p,setsar=1[v${i}]`;
+    if (options.motion === 'none') {
+      inputArgs.push(
+        '-loop', '1', '-framerate', String(options.frameRate),
+        '-t', formatSeconds(lengthSeconds), '-i', imageFiles[segment.imageIndex]
+      );
+      chains.push(`[${i}:v]${toVideo}`);
+    } else {
+      // zoompan renders all of the segment's frames from a single input frame
+      const direction = resolveMotion(options.motion, options.motionSeed, i);
+      inputArgs.push('-i', imageFiles[segment.imageIndex]);
+      chains.push(`[${i}:v]${buildMotionFilter(direction, lengthSeconds, options.frameRate)},${toVideo}`);
+    }
+  });
+
+  let outputLabel = 'v0';
+  if (options.transition === 'cut') {
+    if (segments.length > 1) {
+      outputLabel = 'joined';
+      chains.push(`${segments.map((_, i) => `[v${i}]`).join('')}concat=n=${segments.length}:v=1:a=0[${outputLabel}]`);
+    }
+  } else {
+    const transition = XFADE_TRANSITIONS[options.transition];
+    for (let i = 1; i < segments.length; i++) {
+      const label = `x${i}`;
+      const offset = segments[i].startSeconds - half;
+      chains.push(`[${outputLabel}][v${i}]xfade=transition=${transition}:duration=${formatSeconds(options.transitionSeconds)}:offset=${formatSeconds(offset)}[${label}]`);
+      outputLabel = label;
+    }
+  }
+
+  return { inputArgs, inputCount: segments.length, filterGraph: chains.join(';\n'), outputLabel };
+}
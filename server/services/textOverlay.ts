@@ -0,0 +1,73 @@
+import path from 'path';
+import type { OverlayFont, OverlayPosition } from '@shared/schema';
+import { config } from '../config/environment';
+
+export interface DrawtextOptions {
+  // Text file relative to FFmpeg's working directory, so the text needs no escaping
+  textFile: string;
+  font: OverlayFont;
+  fontSize: number;
+  color: string;
+  // Box drawn behind the text, or null for none
+  box: { color: string; opacity: number } | null;
+  position: OverlayPosition;
+  // Expressions limiting when (enable) and how opaquely (alpha) the text is drawn
+  enable?: string;
+  alpha?: string;
+}
+
+const FONT_FILES: Record<OverlayFont, string> = {
+  lato: 'Lato-Regular.ttf',
+  lato_light: 'Lato-Light.ttf',
+  source_code_pro: 'SourceCodePro-Regular.ttf',
+  source_code_pro_bold: 'SourceCodePro-Bold.ttf',
+};
+
+// Distance from the frame edges, and padding inside the box
+const EDGE_MARGIN = 80;
+const BOX_PADDING = 16;
+
+export function fontPath(font: OverlayFont): string {
+  return path.resolve(config.FONTS_DIR, FONT_FILES[font]);
+}
+
+// Overlay text as it goes into a text file: a single line, whitespace collapsed
+export function overlayText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// x/y expressions placing text in a corner or centred along an edge
+function positionExpressions(position: OverlayPosition): { x: string; y: string } {
+  const [vertical, horizontal] = position.split('_');
+  const x = horizontal === 'left' ? String(EDGE_MARGIN)
+    : horizontal === 'center' ? '(w-text_w)/2'
+    : `w-text_w-${EDGE_MARGIN}`;
+  const y = vertical === 'top' ? String(EDGE_MARGIN) : `h-text_h-${EDGE_MARGIN}`;
+  return { x, y };
+}
+
+function ffmpegColor(color: string, opacity?: number): string {
+  const hex = `0x${color.replace('#', '')}`;
+  return opacity === undefined ? hex : `${hex}@${opacity}`;
+}
+
+// One drawtext filter. Values are quoted, as expressions contain commas.
+export function buildDrawtext(options: DrawtextOptions): string {
+  const { x, y } = positionExpressions(options.position);
+  const params = [
+    `fontfile='${fontPath(options.font)}'`,
+    `textfile='${options.textFile}'`,
+    // Draw the file's text as-is, without expanding %{...} sequences
+    'expansion=none',
+    `fontsize=${options.fontSize}`,
+    `fontcolor=${ffmpegColor(options.color)}`,
+    `x='${x}'`,
+    `y='${y}'`,
+  ];
+  if (options.box) {
+    params.push('box=1', `boxcolor=${ffmpegColor(options.box.color, options.box.opacity)}`, `boxborderw=${BOX_PADDING}`);
+  }
+  if (options.enable) params.push(`enable='${options.enable}'`);
+  if (options.alpha) params.push(`alpha='${options.alpha}'`);
+  return `drawtext=${params.join(':')}`;
+}
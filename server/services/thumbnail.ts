@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { Background, ThumbnailFit } from '@shared/schema';
+import { config } from '../config/environment';
+import type { CachedDownloadOptions } from './downloadCache';
+import { downloadToFile } from './downloader';
+import { runFFmpeg } from './ffmpeg';
+
+// Output frame size; the thumbnail is normalized to exactly this before the video pass
+export const VIDEO_WIDTH = 1920;
+export const VIDEO_HEIGHT = 1080;
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'avif' | 'gif' | 'bmp';
+
+// What fills the frame around contained artwork
+export type ThumbnailBackground =
+  | { type: 'solid'; color: string }
+  | { type: 'blur' }
+  | { type: 'gradient' }
+  // A second image, passed to FFmpeg as input 1
+  | { type: 'image' };
+
+export interface ThumbnailOptions {
+  fit: Exclude<ThumbnailFit, 'blur'>;
+  // null with cover, which fills the whole frame
+  background: ThumbnailBackground | null;
+}
+
+// The job (or preview request) fields that decide how the artwork is framed
+export interface ArtworkSettings {
+  thumbnail_fit?: ThumbnailFit | null;
+  thumbnail_pad_color?: string | null;
+  background?: Background | null;
+  background_url?: string | null;
+}
+
+// Strength of the blurred-background fill (boxblur radius:power)
+const BACKGROUND_BLUR = '40:3';
+
+// Identify an image from its first 12 bytes, whatever the server claimed it was
+export function detectImageFormat(header: Buffer): ImageFormat | null {
+  if (header.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4E, 0x47]))) return 'png';
+  if (header[0] === 0xFF && header[1] === 0xD8) return 'jpeg';
+  if (header.toString('latin1', 0, 4) === 'RIFF' && header.toString('latin1', 8, 12) === 'WEBP') return 'webp';
+  // ISO BMFF "ftyp" box with an AVIF brand (avif for stills, avis for sequences)
+  if (header.toString('latin1', 4, 8) === 'ftyp' && ['avif', 'avis'].includes(header.toString('latin1', 8, 12))) return 'avif';
+  if (['GIF87a', 'GIF89a'].includes(header.toString('latin1', 0, 6))) return 'gif';
+  if (header.toString('latin1', 0, 2) === 'BM') return 'bmp';
+  return null;
+}
+
+// Reject files that aren't a supported image, removing them so they aren't reused
+export async function validateImageSignature(url: string, filepath: string): Promise<ImageFormat> {
+  const handle = await fs.open(filepath, 'r');
+  const signature = Buffer.alloc(12);
+  try {
+    await handle.read(signature, 0, signature.length, 0);
+  } finally {
+    await handle.close();
+  }
+
+  const format = detectImageFormat(signature);
+  if (!format) {
+    await fs.rm(filepath, { force: true });
+    const hexSignature = Array.from(signature).map(b => b.toString(16).padStart(2, '0')).join('');
+    const textSignature = Array.from(signature).map(b => String.fromCharCode(b)).join('');
+    console.error(`❌ Invalid image signature from ${url}:`);
+    console.error(`   Hex: ${hexSignature}`);
+    console.error(`   Text: ${textSignature}`);
+    throw new Error(`Invalid image file from ${url}: got signature ${hexSignature}, expected PNG, JPEG, WebP, AVIF, GIF or BMP`);
+  }
+  return format;
+}
+
+// Download checks for artwork: an image/* content type (when one is sent) and a supported file signature
+export function imageDownloadChecks(url: string): Pick<CachedDownloadOptions, 'validateResponse' | 'validateFile'> {
+  return {
+    validateResponse: (response) => {
+      const contentType = response.headers.get('content-type');
+      if (contentType && !contentType.startsWith('image/')) {
+        console.error(`❌ Invalid content type from ${url}: ${contentType}`);
+        throw new Error(`Invalid image format from ${url}: got ${contentType}, expected image/*`);
+      }
+    },
+    validateFile: async (filepath) => {
+      await validateImageSignature(url, filepath);
+    }
+  };
+}
+
+// Resolve a job's artwork settings. background and background_url take
+// precedence; otherwise the blur fit and thumbnail_pad_color decide the fill.
+export function resolveThumbnailOptions(settings: ArtworkSettings): ThumbnailOptions {
+  const fit = settings.thumbnail_fit ?? 'contain';
+  if (fit === 'cover') {
+    return { fit, background: null };
+  }
+
+  let background: ThumbnailBackground;
+  if (settings.background_url) {
+    background = { type: 'image' };
+  } else if (settings.background === 'black') {
+    background = { type: 'solid', color: '#000000' };
+  } else if (settings.background === 'blur' || settings.background === 'gradient') {
+    background = { type: settings.background };
+  } else if (settings.background?.startsWith('solid:')) {
+    background = { type: 'solid', color: settings.background.slice('solid:'.length) };
+  } else if (fit === 'blur') {
+    background = { type: 'blur' };
+  } else {
+    background = { type: 'solid', color: settings.thumbnail_pad_color ?? '#000000' };
+  }
+  return { fit: 'contain', background };
+}
+
+// Filter graph that renders the artwork (input 0) as one frame-sized RGB
+// frame labelled [out]: cropped to fill with cover, otherwise scaled to fit
+// and overlaid on the background. Image backgrounds are read from input 1.
+export function buildThumbnailFilter({ fit, background }: ThumbnailOptions): string {
+  const size = `${VIDEO_WIDTH}:${VIDEO_HEIGHT}`;
+  const cover = `scale=${size}:force_original_aspect_ratio=increase,crop=${size}`;
+  // 8-bit RGB with square pixels, whatever the source's pixel format, alpha or color space
+  const output = 'setsar=1,format=rgb24[out]';
+
+  if (fit === 'cover' || !background) {
+    return `[0:v]${cover},${output}`;
+  }
+
+  const chains: string[] = [];
+  let foreground = '[0:v]';
+  switch (background.type) {
+    case 'solid':
+      chains.push(`color=c=0x${background.color.replace('#', '')}:s=${VIDEO_WIDTH}x${VIDEO_HEIGHT}[bg]`);
+      break;
+    case 'blur':
+      chains.push(`[0:v]split[bgsrc][fgsrc]`, `[bgsrc]${cover},boxblur=${BACKGROUND_BLUR}[bg]`);
+      foreground = '[fgsrc]';
+      break;
+    case 'gradient':
+      // Average the artwork's top and bottom halves into two pixels, then stretch them into a vertical gradient
+      chains.push(`[0:v]split[bgsrc][fgsrc]`, `[bgsrc]scale=1:2:flags=area,scale=${size}:flags=bilinear[bg]`);
+      foreground = '[fgsrc]';
+      break;
+    case 'image':
+      chains.push(`[1:v]${cover}[bg]`);
+      break;
+  }
+  chains.push(
+    `${foreground}scale=${size}:force_original_aspect_ratio=decrease[fg]`,
+    `[bg][fg]overlay=(W-w)/2:(H-h)/2:format=auto,${output}`
+  );
+  return chains.join(';');
+}
+
+// Render the downloaded artwork (first frame for GIFs) over its background as
+// a frame-sized PNG. backgroundPath is required for image backgrounds.
+export async function normalizeThumbnail(
+  sourcePath: string,
+  outputPath: string,
+  options: ThumbnailOptions,
+  backgroundPath: string | null,
+  signal?: AbortSignal
+) {
+  const cwd = path.dirname(outputPath);
+  const inputs = ['-i', path.relative(cwd, sourcePath)];
+  if (options.background?.type === 'image') {
+    if (!backgroundPath) {
+      throw new Error('An image background needs a background file');
+    }
+    inputs.push('-i', path.relative(cwd, backgroundPath));
+  }
+
+  const partialPath = `${outputPath}.part.png`;
+  await runFFmpeg([
+    ...inputs,
+    '-filter_complex', buildThumbnailFilter(options),
+    '-map', '[out]',
+    '-frames:v', '1',
+    '-y', path.basename(partialPath)
+  ], {
+    cwd,
+    signal
+  });
+  await fs.rename(partialPath, outputPath);
+}
+
+// Download preview artwork with the same checks as a job's, but past the
+// download cache, so previews can't evict files that jobs rely on
+async function downloadPreviewImage(url: string, filepath: string, signal?: AbortSignal) {
+  const checks = imageDownloadChecks(url);
+  await downloadToFile(url, filepath, { signal, validateResponse: checks.validateResponse });
+  await checks.validateFile?.(filepath);
+}
+
+// Render the frame a job with these settings would show, as PNG bytes.
+// Works in its own temp directory, which is removed afterwards.
+export async function renderFramePreview(settings: ArtworkSettings & { thumbnail_url: string }, signal?: AbortSignal): Promise<Buffer> {
+  const options = resolveThumbnailOptions(settings);
+  const previewDir = path.join(config.TEMP_DIR, `preview-${crypto.randomUUID()}`);
+  await fs.mkdir(previewDir, { recursive: true });
+
+  try {
+    const sourcePath = path.join(previewDir, 'thumbnail_source');
+    await downloadPreviewImage(settings.thumbnail_url, sourcePath, signal);
+
+    let backgroundPath: string | null = null;
+    if (options.background?.type === 'image' && settings.background_url) {
+      backgroundPath = path.join(previewDir, 'background_source');
+      await downloadPreviewImage(settings.background_url, backgroundPath, signal);
+    }
+
+    const framePath = path.join(previewDir, 'frame.png');
+    await normalizeThumbnail(sourcePath, framePath, options, backgroundPath, signal);
+    return await fs.readFile(framePath);
+  } finally {
+    await fs.rm(previewDir, { recursive: true, force: true });
+  }
+}
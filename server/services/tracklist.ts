@@ -0,0 +1,129 @@
+import { CUE_MAX_TRACKS, type Song, type TracklistEntry, type TracklistFormat } from '@shared/schema';
+import type { PlaylistPlan } from './playlistPlanner';
+
+// CUE positions count frames of 1/75 second
+const CUE_FRAMES_PER_SECOND = 75;
+
+export function buildTracklist(plan: PlaylistPlan, songs: Song[]): TracklistEntry[] {
+  return plan.entries.map(entry => ({
+    song_index: entry.songIndex,
+    loop: entry.loop,
+    start_seconds: entry.startSeconds,
+    end_seconds: entry.startSeconds + entry.durationSeconds,
+    artist: songs[entry.songIndex].artist,
+    title: songs[entry.songIndex].title,
+    trimmed: entry.trimmed,
+  }));
+}
+
+// "Artist – Title", either one alone, or a numbered fallback
+function entryLabel(entry: TracklistEntry): string {
+  const label = [entry.artist, entry.title].map(part => part.trim()).filter(Boolean).join(' – ');
+  return label || `Song ${entry.song_index + 1}`;
+}
+
+// m:ss, or h:mm:ss when the video runs an hour or more (as YouTube expects)
+export function formatTimestamp(seconds: number, withHours: boolean): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return withHours ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+function formatCueTime(seconds: number): string {
+  const frames = Math.round(seconds * CUE_FRAMES_PER_SECOND);
+  const m = Math.floor(frames / (60 * CUE_FRAMES_PER_SECOND));
+  const s = Math.floor(frames / CUE_FRAMES_PER_SECOND) % 60;
+  const f = frames % CUE_FRAMES_PER_SECOND;
+  return [m, s, f].map(value => String(value).padStart(2, '0')).join(':');
+}
+
+function csvField(value: string | number | boolean): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// CUE strings are double-quoted without an escape for quotes
+function cueString(value: string): string {
+  return `"${value.replace(/"/g, "'").replace(/[\r\n]+/g, ' ')}"`;
+}
+
+export interface TracklistDocument {
+  contentType: string;
+  extension: string;
+  body: string;
+}
+
+// Render a job's tracklist for download. videoFile names the MP4 in CUE sheets.
+export function formatTracklist(
+  entries: TracklistEntry[],
+  format: TracklistFormat,
+  job: { title: string; videoFile: string }
+): TracklistDocument {
+  switch (format) {
+    case 'youtube': {
+      // One line per song occurrence; the first starts at 0:00 as YouTube chapters require
+      const withHours = entries.some(entry => entry.end_seconds >= 3600);
+      const lines = entries.map(entry => `${formatTimestamp(entry.start_seconds, withHours)} ${entryLabel(entry)}`);
+      return { contentType: 'text/plain; charset=utf-8', extension: 'txt', body: lines.join('\n') + '\n' };
+    }
+    case 'json':
+      return { contentType: 'application/json; charset=utf-8', extension: 'json', body: JSON.stringify(entries, null, 2) };
+    case 'csv': {
+      const header = 'position,song_index,loop,start_seconds,end_seconds,start,end,artist,title,trimmed';
+      const withHours = entries.some(entry => entry.end_seconds >= 3600);
+      const rows = entries.map((entry, i) => [
+        i + 1,
+        entry.song_index,
+        entry.loop,
+        entry.start_seconds.toFixed(3),
+        entry.end_seconds.toFixed(3),
+        formatTimestamp(entry.start_seconds, withHours),
+        formatTimestamp(entry.end_seconds, withHours),
+        entry.artist,
+        entry.title,
+        entry.trimmed,
+      ].map(csvField).join(','));
+      return { contentType: 'text/csv; charset=utf-8', extension: 'csv', body: [header, ...rows].join('\r\n') + '\r\n' };
+    }
+    case 'cue': {
+      if (entries.length > CUE_MAX_TRACKS) {
+        throw new Error(`CUE sheets hold at most ${CUE_MAX_TRACKS} tracks, this video has ${entries.length}`);
+      }
+      // CUE has no MP4 file type; WAVE is what players use for any audio file they can decode
+      const lines = [`TITLE ${cueString(job.title)}`, `FILE ${cueString(job.videoFile)} WAVE`];
+      entries.forEach((entry, i) => {
+        lines.push(
+          `  TRACK ${String(i + 1).padStart(2, '0')} AUDIO`,
+          `    TITLE ${cueString(entry.title || entryLabel(entry))}`
+        );
+        if (entry.artist) lines.push(`    PERFORMER ${cueString(entry.artist)}`);
+        lines.push(`    INDEX 01 ${formatCueTime(entry.start_seconds)}`);
+      });
+      return { contentType: 'application/x-cue; charset=utf-8', extension: 'cue', body: lines.join('\r\n') + '\r\n' };
+    }
+  }
+}
+
+// Special characters in FFmpeg metadata files are escaped with a backslash
+function escapeMetadata(value: string): string {
+  return value.replace(/[=;#\\\n]/g, match => `\\${match}`);
+}
+
+// FFmpeg metadata file with a chapter per song occurrence. Chapters run
+// from one song's start to the next, so they don't overlap in crossfades.
+export function buildChapterMetadata(entries: TracklistEntry[], durationSeconds: number): string {
+  const lines = [';FFMETADATA1'];
+  entries.forEach((entry, i) => {
+    const next = entries[i + 1];
+    lines.push(
+      '[CHAPTER]',
+      'TIMEBASE=1/1000',
+      `START=${Math.round(entry.start_seconds * 1000)}`,
+      `END=${Math.round((next ? next.start_seconds : durationSeconds) * 1000)}`,
+      `title=${escapeMetadata(entryLabel(entry))}`
+    );
+  });
+  return lines.join('\n') + '\n';
+}
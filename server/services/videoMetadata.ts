@@ -0,0 +1,29 @@
+import type { InsertVideoJob, TracklistEntry } from '@shared/schema';
+import { formatTracklist } from './tracklist';
+
+// Beyond this many distinct artists the artist tag reads "Various Artists"
+const MAX_LISTED_ARTISTS = 5;
+
+// The songs' artists in playlist order, without repeats
+function artistTag(songs: InsertVideoJob['songs']): string {
+  const artists = Array.from(new Set(songs.map(song => song.artist.trim()).filter(Boolean)));
+  if (artists.length === 0) return '';
+  return artists.length > MAX_LISTED_ARTISTS ? 'Various Artists' : artists.join(', ');
+}
+
+// -metadata arguments tagging the output MP4. The custom video_creation_id key
+// is only written with -movflags use_metadata_tags.
+export function buildMetadataArgs(requestData: InsertVideoJob, tracklist: TracklistEntry[], createdAt: Date): string[] {
+  const tags: Record<string, string> = {
+    title: requestData.title,
+    artist: artistTag(requestData.songs),
+    album: requestData.channel_id,
+    album_artist: requestData.channel_id,
+    comment: formatTracklist(tracklist, 'youtube', { title: requestData.title, videoFile: '' }).body.trimEnd(),
+    creation_time: createdAt.toISOString(),
+    video_creation_id: requestData.video_creation_id,
+  };
+  return Object.entries(tags)
+    .filter(([, value]) => value !== '')
+    .flatMap(([key, value]) => ['-metadata', `${key}=${value}`]);
+}
@@ -1,13 +1,27 @@
-import { exec } from 'child_process';
 import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
-import fetch from 'node-fetch';
 import type { IStorage } from '../storage';
-import type { InsertVideoJob } from '@shared/schema';
+import type { InsertVideoJob, SongLoudness, SongProbe, VideoJob } from '@shared/schema';
+import { config } from '../config/environment';
+import { measureLoudness, probeAudio, runFFmpeg, type AudioProbe, type LoudnormTarget } from './ffmpeg';
+import { planPlaylist } from './playlistPlanner';
+import { reconcileDurations } from './durationCheck';
+import { buildConcatList, buildSlideshowGraph, planSlideshow, slideshowImageUrls } from './slideshow';
+import { imageDownloadChecks, normalizeThumbnail, resolveThumbnailOptions } from './thumbnail';
+import { buildVisualizerGraph } from './visualizer';
+import { buildNowPlayingFilter, nowPlayingText, planNowPlaying } from './nowPlaying';
+import { buildBrandingGraph, hasBranding } from './branding';
+import { overlayText } from './textOverlay';
+import { buildChapterMetadata, buildTracklist } from './tracklist';
+import { buildMetadataArgs } from './videoMetadata';
+import { buildAudioConcatList, buildAudioFilterGraph, canUseConcatDemuxer, fadeOutFilter, type AudioGraphOptions } from './audioGraph';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { isNonEmptyFile } from '../utils/files';
+import { downloadCache } from './downloadCache';
 
-const TEMP_DIR = './temp';
-const OUTPUT_DIR = './output';
-const TARGET_DURATION = 3600; // 60 minutes
+const TEMP_DIR = config.TEMP_DIR;
+const OUTPUT_DIR = config.OUTPUT_DIR;
 
 // Initialize directories
 async function initDirectories() {
@@ -19,91 +33,137 @@ async function initDirectories() {
   }
 }
 
-// Download file utility
-async function downloadFile(url: string, filepath: string): Promise<string> {
+// Download file utility. Returns the file's content hash when it went
+// through the download cache, so its ffprobe results can be cached too.
+async function downloadFile(url: string, filepath: string, kind: 'image' | 'song', signal?: AbortSignal): Promise<string | null> {
+  // Reuse a download left behind by an interrupted run of the same job
+  if (await isNonEmptyFile(filepath)) {
+    console.log(`♻️ Reusing downloaded file: ${path.basename(filepath)}`);
+    return null;
+  }
+
   console.log(`⬇️ Downloading: ${url}`);
-  const response = await fetch(url, {
-    headers: {
-      'User-Agent': 'Mozilla/5.0 (compatible; VideoGenerator/1.0)'
-    }
+  const { hash, fromCache } = await downloadCache.fetch(url, filepath, {
+    signal,
+    ...(kind === 'image' ? imageDownloadChecks(url) : {
+      validateResponse: (response) => {
+        // Error pages are usually served as HTML; anything else is left to ffprobe
+        const contentType = response.headers.get('content-type');
+        if (contentType?.startsWith('text/')) {
+          throw new Error(`got ${contentType}, expected an audio file`);
+        }
+      }
+    })
   });
   
-  if (!response.ok) {
-    throw new Error(`Failed to download ${url}: ${response.statusText}`);
+  if (!fromCache) {
+    const { size } = await fs.stat(filepath);
+    console.log(`✅ Downloaded: ${path.basename(filepath)} (${size} bytes)`);
   }
+  return hash;
+}
 
-  // Check content type for images
-  const contentType = response.headers.get('content-type');
-  if (filepath.includes('thumbnail') && contentType) {
-    if (!contentType.startsWith('image/')) {
-      console.error(`❌ Invalid content type from ${url}: ${contentType}`);
-      throw new Error(`Invalid image format from ${url}: got ${contentType}, expected image/*`);
-    }
-  }
+// ffprobe results for a song, from the download cache when this exact file was probed before
+async function probeSong(songPath: string, hash: string | null, signal?: AbortSignal): Promise<AudioProbe> {
+  const cached = await downloadCache.getProbe(hash);
+  if (cached) return cached;
 
-  const arrayBuffer = await response.arrayBuffer();
-  const buffer = Buffer.from(arrayBuffer);
-  
-  // Validate PNG/JPEG signatures for images
-  if (filepath.includes('thumbnail')) {
-    const signature = buffer.subarray(0, 8);
-    const isPNG = signature[0] === 0x89 && signature[1] === 0x50 && signature[2] === 0x4E && signature[3] === 0x47;
-    const isJPEG = signature[0] === 0xFF && signature[1] === 0xD8;
-    
-    if (!isPNG && !isJPEG) {
-      const hexSignature = Array.from(signature).map(b => b.toString(16).padStart(2, '0')).join('');
-      const textSignature = Array.from(signature).map(b => String.fromCharCode(b)).join('');
-      console.error(`❌ Invalid image signature from ${url}:`);
-      console.error(`   Hex: ${hexSignature}`);
-      console.error(`   Text: ${textSignature}`);
-      console.error(`   First 100 chars: ${buffer.toString().substring(0, 100)}`);
-      throw new Error(`Invalid image file from ${url}: got signature ${hexSignature}, expected PNG (89504E47) or JPEG (FFD8)`);
-    }
-  }
-  
-  await fs.writeFile(filepath, buffer);
-  console.log(`✅ Downloaded: ${path.basename(filepath)} (${buffer.length} bytes)`);
-  return filepath;
+  const probe = await probeAudio(songPath, signal);
+  await downloadCache.setProbe(hash, probe);
+  return probe;
 }
 
-// Get audio duration using FFprobe
-function getAudioDuration(filepath: string): Promise<number> {
-  return new Promise((resolve, reject) => {
-    exec(`ffprobe -v quiet -show_entries format=duration -of csv=p=0 "${filepath}"`, 
-      (error, stdout, stderr) => {
-        if (error) {
-          reject(error);
-        } else {
-          resolve(parseFloat(stdout.trim()));
-        }
-      });
-  });
+// Share of overall job progress (0-100) allotted to each processing stage
+const PROGRESS_RANGES = {
+  download: [0, 20],
+  analysis: [20, 30],
+  audio: [30, 55],
+  video: [55, 99],
+} as const;
+
+// Frame rates of the still-image fast path and of slideshows with hard cuts
+const STILL_FRAME_RATE = 0.5;
+const CUT_FRAME_RATE = 1;
+
+// Rough single-core encode throughput in output frames per second, for the
+// ETA before FFmpeg reports progress. Stills and hard cuts encode a handful
+// of frames; transitions and visualizers render every frame, and zoompan
+// motion is slower still, so an hour of moving video takes on the order of
+// an hour to encode.
+const ENCODE_FPS_ESTIMATES = {
+  still: 100,
+  rendered: 60,
+  motion: 25,
+} as const;
+
+// Images are already frame-sized RGB; convert them to BT.709 video (and tag the output as such)
+const STILL_VIDEO_FILTER = 'scale=out_color_matrix=bt709:out_range=tv,format=yuv420p';
+
+// loudnorm's default loudness range target, in LU
+const LOUDNESS_RANGE_LU = 11;
+
+// Minimum time between progress writes to storage
+const PROGRESS_WRITE_INTERVAL_MS = 2000;
+
+// Frame rate of a video rendered through a filter graph. Motion and the
+// visualizer set their own; transitions and fading text need smooth
+// playback; anything else only changes at cuts, so one frame a second does.
+function renderedFrameRate(requestData: InsertVideoJob, hasTransitions: boolean): number {
+  if (requestData.motion && requestData.motion !== 'none') {
+    return requestData.motion_frame_rate ?? config.MOTION_FRAME_RATE;
+  }
+  if (requestData.visualizer) return config.VISUALIZER_FRAME_RATE;
+  if (hasTransitions || (requestData.now_playing?.fade_seconds ?? 0) > 0) return config.SLIDESHOW_FRAME_RATE;
+  return CUT_FRAME_RATE;
 }
 
-// Execute FFmpeg command
-function executeFFmpeg(command: string): Promise<string> {
-  return new Promise((resolve, reject) => {
-    console.log('🎥 Executing FFmpeg...');
-    // MAXIMUM SPEED: Use larger buffer for 8GB RAM system
-    exec(command, { maxBuffer: 1024 * 1024 * 200 }, (error, stdout, stderr) => {
-      if (error) {
-        console.error('❌ FFmpeg error:', error);
-        console.error('❌ FFmpeg stderr:', stderr);
-        reject(error);
-      } else {
-        console.log('✅ FFmpeg completed successfully');
-        resolve(stdout);
-      }
-    });
-  });
+function stageProgress(stage: keyof typeof PROGRESS_RANGES, fraction: number): number {
+  const [start, end] = PROGRESS_RANGES[stage];
+  return start + (end - start) * Math.min(Math.max(fraction, 0), 1);
 }
 
-// Webhook functionality removed - using synchronous responses only
+// Throttled progress writer: FFmpeg reports progress several times a second,
+// but storage sees at most one write per interval and never two at once
+function createProgressReporter(updateJob: (updates: Partial<VideoJob>) => Promise<void>) {
+  let lastWriteAt = 0;
+  let lastProgress = -1;
+  let inFlight: Promise<void> = Promise.resolve();
 
-export async function processVideo(jobId: string, requestData: InsertVideoJob, storage: IStorage) {
+  return {
+    report(progress: number, etaSeconds: number | null = null) {
+      const rounded = Math.floor(progress);
+      const now = Date.now();
+      if (rounded <= lastProgress || now - lastWriteAt < PROGRESS_WRITE_INTERVAL_MS) return;
+
+      lastProgress = rounded;
+      lastWriteAt = now;
+      inFlight = inFlight
+        .then(() => updateJob({
+          progress: rounded,
+          eta_at: etaSeconds === null ? null : new Date(now + etaSeconds * 1000)
+        }))
+        .catch(() => {
+          // Cancellation or a transient storage error - the next report will retry
+        });
+    },
+    // Wait for the pending write so it can't land after a status change
+    flush(): Promise<void> {
+      return inFlight;
+    }
+  };
+}
+
+export async function processVideo(jobId: string, requestData: InsertVideoJob, storage: IStorage, signal?: AbortSignal) {
   await initDirectories();
   const jobDir = path.join(TEMP_DIR, jobId);
   
+  // All job updates go through here so nothing overwrites a cancellation
+  const updateJob = async (updates: Partial<VideoJob>) => {
+    signal?.throwIfAborted();
+    await storage.updateVideoJob(jobId, updates);
+  };
+  const progress = createProgressReporter(updateJob);
+  
   // Keep-alive mechanism to prevent machine from stopping during processing
   const keepAliveInterval = setInterval(() => {
     console.log(`⏰ Keep-alive ping for job ${jobId} - processing in progress...`);
@@ -114,128 +174,410 @@ export async function processVideo(jobId: string, requestData: InsertVideoJob, s
     console.log(`🎬 Starting job ${jobId}: "${requestData.title}"`);
     
     // Update job status to downloading
-    await storage.updateVideoJob(jobId, { 
+    await updateJob({ 
       status: 'downloading',
       started_at: new Date(),
-      progress: 5
+      progress: 0,
+      eta_at: null
     });
     
     // Download files with optimized concurrency
+    // The download is kept as-is; thumbnail.png is the frame-sized render used by the video pass
+    const thumbnailSourcePath = path.join(jobDir, 'thumbnail_source');
     const thumbnailPath = path.join(jobDir, 'thumbnail.png');
     const songPaths: string[] = [];
+    const songHashes: (string | null)[] = [];
+    const imageUrls = slideshowImageUrls(requestData);
+    const watermarkUrl = requestData.overlays?.watermark?.url ?? null;
+    const totalFiles = requestData.songs.length + imageUrls.length + (watermarkUrl ? 1 : 0);
+    let downloadedFiles = 0;
+    const onFileDownloaded = () => {
+      downloadedFiles++;
+      progress.report(stageProgress('download', downloadedFiles / totalFiles));
+    };
+    
+    console.log(`📥 Starting downloads (${config.DOWNLOAD_CONCURRENCY} at a time)...`);
+    
+    // Download thumbnail (and background image) first (smaller, faster)
+    const thumbnailOptions = resolveThumbnailOptions(requestData);
+    await downloadFile(requestData.thumbnail_url, thumbnailSourcePath, 'image', signal);
+    let backgroundPath: string | null = null;
+    if (thumbnailOptions.background?.type === 'image' && requestData.background_url) {
+      backgroundPath = path.join(jobDir, 'background_source');
+      await downloadFile(requestData.background_url, backgroundPath, 'image', signal);
+    }
+    if (!await isNonEmptyFile(thumbnailPath)) {
+      await normalizeThumbnail(thumbnailSourcePath, thumbnailPath, thumbnailOptions, backgroundPath, signal).catch(error => {
+        if (signal?.aborted) throw error;
+        throw new Error(`Could not process thumbnail ${requestData.thumbnail_url}: ${error instanceof Error ? error.message : error}`);
+      });
+    }
+    onFileDownloaded();
+    
+    // Slideshow images (per-song image_url or the images list) get the same treatment as the thumbnail
+    const imageFiles = [path.basename(thumbnailPath)];
+    for (let i = 1; i < imageUrls.length; i++) {
+      const sourcePath = path.join(jobDir, `slide_${i}_source`);
+      const slidePath = path.join(jobDir, `slide_${i}.png`);
+      await downloadFile(imageUrls[i], sourcePath, 'image', signal);
+      if (!await isNonEmptyFile(slidePath)) {
+        await normalizeThumbnail(sourcePath, slidePath, thumbnailOptions, backgroundPath, signal).catch(error => {
+          if (signal?.aborted) throw error;
+          throw new Error(`Could not process slideshow image ${imageUrls[i]}: ${error instanceof Error ? error.message : error}`);
+        });
+      }
+      imageFiles.push(path.basename(slidePath));
+      onFileDownloaded();
+    }
     
-    console.log('📥 Starting ultra-fast downloads with batching...');
-    
-    // Download thumbnail first (smaller, faster)
-    await downloadFile(requestData.thumbnail_url, thumbnailPath);
+    // The watermark is overlaid as downloaded, keeping its transparency
+    const watermarkPath = path.join(jobDir, 'watermark_source');
+    if (watermarkUrl) {
+      await downloadFile(watermarkUrl, watermarkPath, 'image', signal);
+      onFileDownloaded();
+    }
     
-    // Download songs in batches of 10 to avoid overwhelming the server
-    const batchSize = 10; // Download all 10 songs at once - maximum parallelization
-    for (let i = 0; i < requestData.songs.length; i += batchSize) {
-      const batch = requestData.songs.slice(i, i + batchSize);
-      const batchPromises = batch.map((song, batchIndex) => {
-        const actualIndex = i + batchIndex;
-        const songPath = path.join(jobDir, `song_${actualIndex}.mp3`);
-        songPaths[actualIndex] = songPath;
-        return downloadFile(song.file_url, songPath);
+    // Download songs through a bounded pool so large playlists don't open dozens of connections
+    await mapWithConcurrency(requestData.songs, config.DOWNLOAD_CONCURRENCY, (song, index) => {
+      // No extension: the format is only known once the file has been probed
+      const songPath = path.join(jobDir, `song_${index}`);
+      songPaths[index] = songPath;
+      return downloadFile(song.file_url, songPath, 'song', signal).then(hash => {
+        songHashes[index] = hash;
+        onFileDownloaded();
+      }, error => {
+        if (signal?.aborted) throw error;
+        throw new Error(`Download failed for song ${index + 1} (${song.file_url}): ${error instanceof Error ? error.message : error}`);
       });
-      
-      await Promise.all(batchPromises);
-      console.log(`✅ Downloaded batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(requestData.songs.length/batchSize)}`);
-    }
+    });
     
-    console.log(`✅ Job ${jobId}: All ${requestData.songs.length + 1} files downloaded`);
+    console.log(`✅ Job ${jobId}: All ${totalFiles} files downloaded`);
     
     // Update progress
-    await storage.updateVideoJob(jobId, { 
+    await progress.flush();
+    await updateJob({ 
       status: 'processing_audio',
-      progress: 25
+      progress: PROGRESS_RANGES.analysis[0]
     });
     
-    // Get actual audio durations for accurate looping
-    console.log('🎵 Analyzing actual audio durations for proper looping...');
-    let totalDuration = 0;
-    const actualDurations: number[] = [];
-    
-    // MAXIMUM SPEED: Analyze all audio durations in parallel using all CPU cores
-    const durationPromises = songPaths.map((songPath, i) => 
-      getAudioDuration(songPath).then(duration => ({ index: i, duration }))
+    // Probe every song for format and actual duration (used for accurate looping).
+    // All songs are checked so a job with several bad URLs reports them together.
+    console.log('🎵 Probing songs for format and actual duration...');
+    const probeResults = await mapWithConcurrency(songPaths, os.cpus().length, (songPath, i) =>
+      probeSong(songPath, songHashes[i], signal).then(
+        probe => ({ probe, error: null }),
+        (error: unknown) => {
+          if (signal?.aborted) throw error;
+          return { probe: null, error: `song ${i + 1} (${requestData.songs[i].file_url}): ${error instanceof Error ? error.message : error}` };
+        }
+      )
     );
     
-    const durationResults = await Promise.all(durationPromises);
-    durationResults.sort((a, b) => a.index - b.index);
+    const probeErrors = probeResults.flatMap(result => result.error ? [result.error] : []);
+    if (probeErrors.length > 0) {
+      throw new Error(`Unsupported audio for ${probeErrors.join('; ')}`);
+    }
     
-    for (const result of durationResults) {
-      actualDurations.push(result.duration);
-      totalDuration += result.duration;
-      console.log(`Song ${result.index + 1}: ${Math.round(result.duration * 10) / 10}s (actual duration)`);
+    const audioProbes: SongProbe[] = probeResults.map(({ probe }, i) => ({
+      song_index: i,
+      format: probe!.format,
+      codec: probe!.codec,
+      sample_rate: probe!.sampleRate,
+      channels: probe!.channels,
+      duration_seconds: probe!.durationSeconds,
+      bit_rate: probe!.bitRate
+    }));
+    
+    // Declared lengths are informational (measured durations drive the plan), but a mismatch usually means a wrong file
+    const warnings = reconcileDurations(requestData.songs, audioProbes, config.DURATION_TOLERANCE_SECONDS);
+    for (const warning of warnings) {
+      console.warn(`⚠️ ${warning.message}`);
+    }
+    await updateJob({ audio_probes: audioProbes, warnings });
+    if (warnings.length > 0 && requestData.strict_durations) {
+      throw new Error(`Declared song lengths don't match the audio (tolerance ${config.DURATION_TOLERANCE_SECONDS}s): ${warnings.map(warning => warning.message).join('; ')}`);
+    }
+    
+    let totalDuration = 0;
+    const actualDurations: number[] = [];
+    for (const probe of audioProbes) {
+      actualDurations.push(probe.duration_seconds);
+      totalDuration += probe.duration_seconds;
+      console.log(`Song ${probe.song_index + 1}: ${Math.round(probe.duration_seconds * 10) / 10}s ${probe.format.toUpperCase()} (${probe.codec}, ${probe.sample_rate} Hz, ${probe.channels} ch)`);
     }
     
     console.log(`📊 Total single loop duration: ${Math.round(totalDuration * 10) / 10}s (${Math.round(totalDuration/60 * 10) / 10}min)`);
     
-    // Update progress
-    await storage.updateVideoJob(jobId, { progress: 45 });
-    
-    // Calculate loops and create concatenation file
-    const loopsNeeded = Math.ceil(TARGET_DURATION / totalDuration);
-    console.log(`🔄 Loops needed: ${loopsNeeded}`);
-    
-    const concatFilePath = path.join(jobDir, 'concat.txt');
-    let concatContent = '';
-    let currentDuration = 0;
-    
-    // Add songs in loops until target duration is reached
-    console.log(`🔄 Creating audio sequence for ${TARGET_DURATION}s duration...`);
-    outerLoop: for (let loop = 0; loop < loopsNeeded; loop++) {
-      console.log(`  Loop ${loop + 1}/${loopsNeeded}:`);
-      for (let i = 0; i < songPaths.length; i++) {
-        const songDuration = actualDurations[i];
-        
-        if (currentDuration + songDuration > TARGET_DURATION) {
-          const remainingTime = TARGET_DURATION - currentDuration;
-          concatContent += `file '${path.basename(songPaths[i])}'\n`;
-          console.log(`    Song ${i + 1}: ${Math.round(songDuration * 10) / 10}s ✂️ (cut to ${Math.round(remainingTime * 10) / 10}s)`);
-          break outerLoop;
-        }
-        
-        concatContent += `file '${path.basename(songPaths[i])}'\n`;
-        currentDuration += songDuration;
-        console.log(`    Song ${i + 1}: ${Math.round(songDuration * 10) / 10}s (total: ${Math.round(currentDuration * 10) / 10}s)`);
-        
-        if (currentDuration >= TARGET_DURATION) break outerLoop;
-      }
+    // A final audio track left by an interrupted run already has every audio option applied
+    const trimmedAudioPath = path.join(jobDir, 'final_audio.mp4');
+    const reuseFinalAudio = await isNonEmptyFile(trimmedAudioPath);
+    
+    // First loudnorm pass: measure every song (its results were stored when the final audio was made)
+    let loudness: AudioGraphOptions['loudness'];
+    if (requestData.normalize_loudness && !reuseFinalAudio) {
+      const target: LoudnormTarget = {
+        integratedLufs: requestData.loudness_target_lufs ?? config.LOUDNESS_TARGET_LUFS,
+        truePeakDbtp: config.LOUDNESS_TRUE_PEAK_DBTP,
+        loudnessRange: LOUDNESS_RANGE_LU
+      };
+      console.log(`🔊 Measuring loudness (target ${target.integratedLufs} LUFS)...`);
+      let measuredSongs = 0;
+      const measurements = await mapWithConcurrency(songPaths, os.cpus().length, async (songPath, i) => {
+        const measurement = await measureLoudness(songPath, target, signal).catch(error => {
+          throw new Error(`Loudness analysis failed for song ${i + 1} (${requestData.songs[i].file_url}): ${error instanceof Error ? error.message : error}`);
+        });
+        console.log(`Song ${i + 1}: ${measurement.inputI} LUFS, ${measurement.inputTp} dBTP`);
+        measuredSongs++;
+        progress.report(stageProgress('analysis', measuredSongs / songPaths.length));
+        return measurement;
+      });
+      loudness = { target, measurements };
+      
+      const songLoudness: SongLoudness[] = measurements.map((measurement, i) => ({
+        song_index: i,
+        input_i: measurement.inputI,
+        input_tp: measurement.inputTp,
+        input_lra: measurement.inputLra,
+        input_thresh: measurement.inputThresh,
+        target_offset: measurement.targetOffset,
+        output_i: measurement.outputI,
+        output_tp: measurement.outputTp
+      }));
+      await progress.flush();
+      await updateJob({ loudness: songLoudness });
     }
     
-    console.log(`📋 Total entries in playlist: ${concatContent.split('\n').filter(line => line.trim()).length}`);
-    console.log(`⏱️ Expected audio duration: ${Math.round(currentDuration * 10) / 10}s`)
+    progress.report(PROGRESS_RANGES.analysis[1]);
+    
+    // Lay out the looped playlist for this job's duration, loop mode and transitions
+    const targetDuration = requestData.target_duration_seconds ?? config.VIDEO_DURATION_SECONDS;
+    const loopMode = requestData.loop_mode ?? 'loop_to_duration';
+    const crossfadeSeconds = requestData.crossfade_seconds ?? 0;
+    const gapSeconds = requestData.gap_seconds ?? 0;
+    console.log(`🔄 Creating audio sequence (${loopMode}, target ${targetDuration}s, crossfade ${crossfadeSeconds}s, gap ${gapSeconds}s)...`);
+    const plan = planPlaylist(actualDurations, {
+      mode: loopMode,
+      targetDurationSeconds: targetDuration,
+      loopCount: requestData.loop_count,
+      crossfadeSeconds,
+      gapSeconds
+    });
+    const outputDuration = plan.totalDurationSeconds;
     
-    await fs.writeFile(concatFilePath, concatContent);
-    console.log('📄 Concatenation file created');
+    // Every song occurrence in the output, kept on the job for tracklist exports
+    const tracklist = buildTracklist(plan, requestData.songs);
+    await updateJob({ tracklist });
     
-    // Update progress
-    await storage.updateVideoJob(jobId, { progress: 65 });
+    for (const entry of plan.entries) {
+      const songDuration = actualDurations[entry.songIndex];
+      console.log(entry.trimmed
+        ? `    Loop ${entry.loop + 1} song ${entry.songIndex + 1}: ${Math.round(songDuration * 10) / 10}s ✂️ (cut to ${Math.round(entry.durationSeconds * 10) / 10}s)`
+        : `    Loop ${entry.loop + 1} song ${entry.songIndex + 1}: ${Math.round(songDuration * 10) / 10}s (ends at ${Math.round((entry.startSeconds + entry.durationSeconds) * 10) / 10}s)`);
+    }
     
-    // Skip individual concatenation - do everything in one ultra-fast step
-    console.log('🎵 Creating final audio track (HIGH QUALITY mode)...');
-    const trimmedAudioPath = path.join(jobDir, 'final_audio.mp4');
-    await executeFFmpeg(
-      `cd "${jobDir}" && ffmpeg -f concat -safe 0 -i "${path.basename(concatFilePath)}" -t ${TARGET_DURATION} -c:a aac -b:a 192k -ar 44100 -ac 2 -threads 8 -thread_queue_size 2048 -max_muxing_queue_size 4096 "${path.basename(trimmedAudioPath)}"`
-    );
+    // Hard cuts between songs in one format go through the concat demuxer;
+    // transitions, gaps, loudness and mixed formats need a filter graph
+    const songFiles = songPaths.map(songPath => path.basename(songPath));
+    const audioOptions: AudioGraphOptions = {
+      crossfadeSeconds,
+      crossfadeCurve: requestData.crossfade_curve ?? 'tri',
+      gapSeconds,
+      fadeOutSeconds: config.AUDIO_FADE_OUT_SECONDS,
+      loudness
+    };
+    let audioArgs: string[];
+    
+    console.log(`📋 Total entries in playlist: ${plan.entries.length} (${plan.loops} loop(s))`);
+    console.log(`⏱️ Expected audio duration: ${Math.round(outputDuration * 10) / 10}s`)
+    
+    if (canUseConcatDemuxer(audioOptions, audioProbes)) {
+      await fs.writeFile(path.join(jobDir, 'concat.txt'), buildAudioConcatList(plan, songFiles));
+      console.log('📄 Concatenation file created');
+      const fadeOut = fadeOutFilter(plan, audioOptions.fadeOutSeconds);
+      audioArgs = [
+        '-f', 'concat', '-safe', '0', '-i', 'concat.txt',
+        '-map', '0:a',
+        ...(fadeOut ? ['-af', fadeOut] : [])
+      ];
+    } else {
+      const audioGraph = buildAudioFilterGraph(plan, songFiles, audioOptions);
+      // The graph grows with the playlist, so pass it as a script rather than an argument
+      await fs.writeFile(path.join(jobDir, 'audio_filter.txt'), audioGraph.filterGraph);
+      console.log(`📄 Audio filter graph created (${audioGraph.inputs.length} input(s))`);
+      audioArgs = [
+        ...audioGraph.inputs.flatMap(input => ['-i', input]),
+        '-filter_complex_script', 'audio_filter.txt',
+        '-map', `[${audioGraph.outputLabel}]`
+      ];
+    }
     
-    // Update job status to creating video
-    await storage.updateVideoJob(jobId, { 
-      status: 'creating_video',
-      progress: 85
-    });
+    // Skip individual concatenation - do everything in one ultra-fast step
+    if (reuseFinalAudio) {
+      console.log('♻️ Reusing final audio track from interrupted run');
+    } else {
+      console.log('🎵 Creating final audio track (HIGH QUALITY mode)...');
+      const partialAudioPath = path.join(jobDir, 'final_audio.part.mp4');
+      await runFFmpeg([
+        '-y',
+        ...audioArgs,
+        '-t', String(outputDuration),
+        '-c:a', 'aac', '-b:a', '192k', '-ar', '44100', '-ac', '2',
+        '-threads', '8', '-thread_queue_size', '2048', '-max_muxing_queue_size', '4096',
+        path.basename(partialAudioPath)
+      ], {
+        cwd: jobDir,
+        signal,
+        durationSeconds: outputDuration,
+        onProgress: (p) => progress.report(stageProgress('audio', p.percent / 100), p.etaSeconds)
+      });
+      await fs.rename(partialAudioPath, trimmedAudioPath);
+    }
     
     // Create final 1080p video with speed optimizations
     console.log('🎬 Creating final 1080p video with MAXIMUM SPEED optimizations...');
     const tempVideoPath = path.join(jobDir, `${jobId}.mp4`);
     const outputVideoPath = path.join(OUTPUT_DIR, `${jobId}.mp4`);
     
-    await executeFFmpeg(
-      `cd "${jobDir}" && ffmpeg -loop 1 -i "${path.basename(thumbnailPath)}" -i "${path.basename(trimmedAudioPath)}" -c:v libx264 -preset ultrafast -crf 28 -tune stillimage -r 0.5 -c:a copy -pix_fmt yuv420p -vf "scale=1920:1080:force_original_aspect_ratio=decrease,pad=1920:1080:(ow-iw)/2:(oh-ih)/2" -movflags +faststart -t ${TARGET_DURATION} -threads 8 "${jobId}.mp4"`
-    );
+    // Visual timeline: a single image (the still fast path), hard cuts
+    // through the concat demuxer, or a filter graph rendering transitions,
+    // Ken Burns motion, the audio visualizer and now-playing text
+    const audioInput = path.basename(trimmedAudioPath);
+    const transition = requestData.slide_transition ?? 'cut';
+    const transitionSeconds = requestData.slide_transition_seconds ?? 1;
+    const motion = requestData.motion ?? 'none';
+    const visualizer = requestData.visualizer ?? null;
+    const nowPlaying = requestData.now_playing ?? null;
+    const nowPlayingWindows = nowPlaying ? planNowPlaying(plan, requestData.songs) : [];
+    const segments = planSlideshow(plan, requestData, transition === 'cut' ? 0 : transitionSeconds);
+    const overlays = hasBranding(requestData.overlays) ? requestData.overlays : null;
+    const needsGraph = motion !== 'none' || visualizer !== null || nowPlayingWindows.length > 0 || overlays !== null;
+    let videoInputs: string[];
+    let videoOutputs: string[];
+    let encodeEstimateSeconds: number;
+    if (!needsGraph && segments.length === 1) {
+      encodeEstimateSeconds = outputDuration * STILL_FRAME_RATE / ENCODE_FPS_ESTIMATES.still;
+      videoInputs = [
+        '-loop', '1', '-i', imageFiles[segments[0].imageIndex],
+        '-i', audioInput
+      ];
+      videoOutputs = [
+        '-map', '0:v', '-map', '1:a',
+        '-tune', 'stillimage', '-r:v:0', String(STILL_FRAME_RATE),
+        '-filter:v:0', STILL_VIDEO_FILTER
+      ];
+    } else if (!needsGraph && transition === 'cut') {
+      console.log(`🖼️ Slideshow: ${segments.length} images with hard cuts`);
+      encodeEstimateSeconds = outputDuration * CUT_FRAME_RATE / ENCODE_FPS_ESTIMATES.still;
+      await fs.writeFile(path.join(jobDir, 'slides.txt'), buildConcatList(segments, imageFiles));
+      videoInputs = [
+        '-f', 'concat', '-i', 'slides.txt',
+        '-i', audioInput
+      ];
+      videoOutputs = [
+        '-map', '0:v', '-map', '1:a',
+        '-tune', 'stillimage', '-r:v:0', String(CUT_FRAME_RATE),
+        '-filter:v:0', STILL_VIDEO_FILTER
+      ];
+    } else {
+      const frameRate = renderedFrameRate(requestData, segments.length > 1 && transition !== 'cut');
+      console.log(`🖼️ Rendering ${segments.length} image(s), ${transition === 'cut' ? 'hard cuts' : `${transitionSeconds}s ${transition} transitions`}, motion ${motion}, visualizer ${visualizer?.type ?? 'none'}, ${nowPlayingWindows.length} now-playing captions, ${frameRate} fps`);
+      encodeEstimateSeconds = outputDuration * frameRate /
+        ENCODE_FPS_ESTIMATES[motion !== 'none' ? 'motion' : frameRate === CUT_FRAME_RATE ? 'still' : 'rendered'];
+      const slideshow = buildSlideshowGraph(segments, imageFiles, {
+        transition,
+        transitionSeconds,
+        frameRate,
+        motion,
+        motionSeed: jobId
+      });
+      const audioIndex = slideshow.inputCount;
+      let filterGraph = slideshow.filterGraph;
+      let outputLabel = slideshow.outputLabel;
+      if (visualizer) {
+        const overlay = buildVisualizerGraph(visualizer, outputLabel, `${audioIndex}:a`, frameRate);
+        filterGraph += `;\n${overlay.filterGraph}`;
+        outputLabel = overlay.outputLabel;
+      }
+      if (nowPlaying && nowPlayingWindows.length > 0) {
+        // Each song's text goes in a file, so artist and title need no filter escaping
+        const textFiles = new Map<number, string>();
+        for (const songIndex of Array.from(new Set(nowPlayingWindows.map(window => window.songIndex)))) {
+          const textFile = `now_playing_${songIndex}.txt`;
+          await fs.writeFile(path.join(jobDir, textFile), nowPlayingText(requestData.songs[songIndex])!);
+          textFiles.set(songIndex, textFile);
+        }
+        filterGraph += `;\n[${outputLabel}]${buildNowPlayingFilter(nowPlaying, nowPlayingWindows, textFiles)}[captioned]`;
+        outputLabel = 'captioned';
+      }
+      const extraInputs: string[] = [];
+      if (overlays) {
+        let titleFile: string | null = null;
+        const title = overlayText(requestData.title);
+        if (overlays.title && title) {
+          titleFile = 'title.txt';
+          await fs.writeFile(path.join(jobDir, titleFile), title);
+        }
+        let watermarkStream: string | null = null;
+        if (watermarkUrl) {
+          extraInputs.push('-i', path.basename(watermarkPath));
+          watermarkStream = `${audioIndex + 1}:v`;
+        }
+        const branding = buildBrandingGraph(overlays, outputLabel, { titleFile, watermarkStream });
+        if (branding.filterGraph) {
+          filterGraph += `;\n${branding.filterGraph}`;
+          outputLabel = branding.outputLabel;
+        }
+      }
+      await fs.writeFile(path.join(jobDir, 'video_filter.txt'), filterGraph);
+      videoInputs = [
+        ...slideshow.inputArgs,
+        '-i', audioInput,
+        ...extraInputs
+      ];
+      videoOutputs = [
+        '-filter_complex_script', 'video_filter.txt',
+        '-map', `[${outputLabel}]`, '-map', `${audioIndex}:a`,
+        '-r:v:0', String(frameRate)
+      ];
+    }
+    
+    // Update job status to creating video. The ETA starts from a rough
+    // estimate until FFmpeg reports its actual speed.
+    console.log(`⏱️ Estimated video encode time: ${Math.ceil(encodeEstimateSeconds / 60)} min`);
+    await progress.flush();
+    await updateJob({ 
+      status: 'creating_video',
+      progress: PROGRESS_RANGES.video[0],
+      eta_at: new Date(Date.now() + encodeEstimateSeconds * 1000)
+    });
+    
+    // Chapters from the tracklist, read from an FFmpeg metadata file after the
+    // other inputs, then the thumbnail, copied in as the MP4's cover art
+    const inputCount = videoInputs.filter(arg => arg === '-i').length;
+    await fs.writeFile(path.join(jobDir, 'chapters.txt'), buildChapterMetadata(tracklist, outputDuration));
+    
+    await runFFmpeg([
+      ...videoInputs,
+      '-f', 'ffmetadata', '-i', 'chapters.txt',
+      '-i', path.basename(thumbnailPath),
+      ...videoOutputs,
+      '-map', `${inputCount + 1}:v`,
+      '-map_chapters', String(inputCount),
+      ...buildMetadataArgs(requestData, tracklist, new Date()),
+      '-c:v:0', 'libx264', '-preset', 'ultrafast', '-crf', '28',
+      '-c:v:1', 'copy', '-disposition:v:1', 'attached_pic',
+      '-c:a', 'copy',
+      '-colorspace', 'bt709', '-color_primaries', 'bt709', '-color_trc', 'bt709', '-color_range', 'tv',
+      '-movflags', '+faststart+use_metadata_tags', '-t', String(outputDuration), '-threads', '8', '-y', `${jobId}.mp4`
+    ], {
+      cwd: jobDir,
+      signal,
+      durationSeconds: outputDuration,
+      onProgress: (p) => progress.report(stageProgress('video', p.percent / 100), p.etaSeconds)
+    });
+    
+    // Don't publish a video for a job that was cancelled during the encode
+    signal?.throwIfAborted();
     
     // Move video to output directory
     await fs.rename(tempVideoPath, outputVideoPath);
@@ -249,9 +591,11 @@ export async function processVideo(jobId: string, requestData: InsertVideoJob, s
     console.log(`🔗 Generated video URL: ${videoUrl}`);
     
     // Update job status to completed
-    await storage.updateVideoJob(jobId, { 
+    await progress.flush();
+    await updateJob({ 
       status: 'completed',
       progress: 100,
+      eta_at: null,
       video_url: videoUrl,
       completed_at: new Date()
     });
@@ -261,50 +605,6 @@ export async function processVideo(jobId: string, requestData: InsertVideoJob, s
     // Clear keep-alive interval
     clearInterval(keepAliveInterval);
     
-    // Send webhook notification with complete job details
-    try {
-      const completedJob = await storage.getVideoJob(jobId);
-      if (completedJob) {
-        const webhookPayload = {
-          job_id: completedJob.id,
-          video_creation_id: completedJob.video_creation_id,
-          title: completedJob.title,
-          channel_id: completedJob.channel_id,
-          thumbnail_url: completedJob.thumbnail_url,
-          songs: completedJob.songs,
-          status: completedJob.status,
-          progress: completedJob.progress,
-          video_url: completedJob.video_url,
-          created_at: completedJob.created_at,
-          started_at: completedJob.started_at,
-          completed_at: completedJob.completed_at,
-          processing_time_seconds: completedJob.started_at && completedJob.completed_at 
-            ? Math.round((completedJob.completed_at.getTime() - completedJob.started_at.getTime()) / 1000)
-            : null
-        };
-        
-        console.log(`📤 Sending webhook for job ${jobId}:`, webhookPayload);
-        
-        const webhookResponse = await fetch('https://hook.eu2.make.com/hkxxfxo0fn7kdkgg4icrei2v9oci4zqo', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'User-Agent': 'VideoMaestro/1.0'
-          },
-          body: JSON.stringify(webhookPayload)
-        });
-        
-        if (webhookResponse.ok) {
-          console.log(`✅ Webhook sent successfully for job ${jobId}`);
-        } else {
-          console.error(`❌ Webhook failed for job ${jobId}: ${webhookResponse.status} ${webhookResponse.statusText}`);
-        }
-      }
-    } catch (webhookError) {
-      console.error(`❌ Webhook error for job ${jobId}:`, webhookError);
-      // Don't fail the job if webhook fails
-    }
-    
     // Clean up temp files
     try {
       await fs.rm(jobDir, { recursive: true });
@@ -314,60 +614,37 @@ export async function processVideo(jobId: string, requestData: InsertVideoJob, s
     }
     
   } catch (error) {
-    console.error(`❌ Job ${jobId} failed:`, error);
-    
     // Clear keep-alive interval
     clearInterval(keepAliveInterval);
+    await progress.flush();
+    
+    // Cancelled jobs aren't marked as failed - just clean up
+    if (signal?.aborted) {
+      console.log(`🛑 Job ${jobId}: Cancelled, stopping processing`);
+      await storage.updateVideoJob(jobId, {
+        status: 'cancelled',
+        error_message: 'Cancelled by user',
+        eta_at: null,
+        cancelled_at: new Date()
+      });
+      try {
+        await fs.rm(jobDir, { recursive: true, force: true });
+        console.log(`🧹 Cleaned up temp files for cancelled job ${jobId}`);
+      } catch (cleanupError) {
+        console.error(`⚠️ Failed to clean up temp files for cancelled job ${jobId}:`, cleanupError);
+      }
+      return;
+    }
+    
+    console.error(`❌ Job ${jobId} failed:`, error);
     
     await storage.updateVideoJob(jobId, { 
       status: 'failed',
       error_message: error instanceof Error ? error.message : 'Unknown error',
+      eta_at: null,
       failed_at: new Date()
     });
     
-    // Send webhook notification for failed job
-    try {
-      const failedJob = await storage.getVideoJob(jobId);
-      if (failedJob) {
-        const webhookPayload = {
-          job_id: failedJob.id,
-          video_creation_id: failedJob.video_creation_id,
-          title: failedJob.title,
-          channel_id: failedJob.channel_id,
-          thumbnail_url: failedJob.thumbnail_url,
-          songs: failedJob.songs,
-          status: failedJob.status,
-          progress: failedJob.progress,
-          error_message: failedJob.error_message,
-          created_at: failedJob.created_at,
-          started_at: failedJob.started_at,
-          failed_at: failedJob.failed_at,
-          processing_time_seconds: failedJob.started_at && failedJob.failed_at 
-            ? Math.round((failedJob.failed_at.getTime() - failedJob.started_at.getTime()) / 1000)
-            : null
-        };
-        
-        console.log(`📤 Sending webhook for failed job ${jobId}:`, webhookPayload);
-        
-        const webhookResponse = await fetch('https://hook.eu2.make.com/hkxxfxo0fn7kdkgg4icrei2v9oci4zqo', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'User-Agent': 'VideoMaestro/1.0'
-          },
-          body: JSON.stringify(webhookPayload)
-        });
-        
-        if (webhookResponse.ok) {
-          console.log(`✅ Webhook sent successfully for failed job ${jobId}`);
-        } else {
-          console.error(`❌ Webhook failed for failed job ${jobId}: ${webhookResponse.status} ${webhookResponse.statusText}`);
-        }
-      }
-    } catch (webhookError) {
-      console.error(`❌ Webhook error for failed job ${jobId}:`, webhookError);
-    }
-    
     // Clean up temp files even on failure
     try {
       await fs.rm(jobDir, { recursive: true });
@@ -0,0 +1,70 @@
+import type { Visualizer } from '@shared/schema';
+import { VIDEO_HEIGHT, VIDEO_WIDTH } from './thumbnail';
+
+export interface VisualizerGraph {
+  filterGraph: string;
+  outputLabel: string;
+}
+
+// Space kept between the visualizer and the top or bottom edge
+const EDGE_MARGIN = 40;
+
+// YUV 4:2:0 needs even dimensions
+function even(value: number): number {
+  return Math.max(2, Math.round(value / 2) * 2);
+}
+
+function hexToRgb(color: string): [number, number, number] {
+  const value = parseInt(color.replace('#', ''), 16);
+  return [(value >> 16) & 0xFF, (value >> 8) & 0xFF, value & 0xFF];
+}
+
+// The visualizer source filter for the audio, as transparent RGBA frames
+function sourceFilter(visualizer: Visualizer, width: number, height: number, frameRate: number): string {
+  const color = `0x${visualizer.color.replace('#', '')}`;
+  switch (visualizer.type) {
+    case 'waveform':
+      return `showwaves=s=${width}x${height}:mode=cline:rate=${frameRate}:colors=${color}`;
+    case 'spectrum':
+      // showfreqs emits a frame per analysis window; resample to the video's rate
+      return `showfreqs=s=${width}x${height}:mode=bar:fscale=log:ascale=log:win_size=2048:colors=${color},fps=${frameRate}`;
+    case 'circular': {
+      const [red, green, blue] = hexToRgb(visualizer.color);
+      return `avectorscope=s=${width}x${height}:r=${frameRate}:mode=lissajous:draw=line:scale=sqrt` +
+        `:rc=${red}:gc=${green}:bc=${blue}:ac=255:rf=20:gf=20:bf=20:af=20`;
+    }
+  }
+}
+
+// Filter chains drawing the visualizer for audioLabel over videoLabel. The
+// overlay is converted to BT.709 YUV first so its colors match the video.
+export function buildVisualizerGraph(
+  visualizer: Visualizer,
+  videoLabel: string,
+  audioLabel: string,
+  frameRate: number
+): VisualizerGraph {
+  const height = even(VIDEO_HEIGHT * visualizer.size);
+  const width = visualizer.type === 'circular' ? height : VIDEO_WIDTH;
+
+  const margin = Math.min(EDGE_MARGIN, VIDEO_HEIGHT - height);
+  let y: number;
+  switch (visualizer.position) {
+    case 'top':
+      y = margin;
+      break;
+    case 'center':
+      y = (VIDEO_HEIGHT - height) / 2;
+      break;
+    case 'bottom':
+      y = VIDEO_HEIGHT - height - margin;
+      break;
+  }
+
+  const chains = [
+    `[${audioLabel}]${sourceFilter(visualizer, width, height, frameRate)},format=rgba,` +
+      `colorchannelmixer=aa=${visualizer.opacity},scale=out_color_matrix=bt709:out_range=tv,format=yuva420p[viz]`,
+    `[${videoLabel}][viz]overlay=x=(W-w)/2:y=${y}:format=yuv420[visualized]`,
+  ];
+  return { filterGraph: chains.join(';\n'), outputLabel: 'visualized' };
+}
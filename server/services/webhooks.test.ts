@@ -0,0 +1,283 @@
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { insertVideoJobSchema, type VideoJob, type WebhookDelivery } from '@shared/schema';
+import { WEBHOOK_PAYLOAD_VERSION } from '@shared/webhooks';
+import { config } from '../config/environment';
+import { MemStorage } from '../storage';
+import { buildWebhookPayload, classifyJobUpdate, retryDelayMs, signPayload, WebhookDispatcher } from './webhooks';
+
+// Read when the config is loaded, so they are set before the imports above run
+vi.hoisted(() => {
+  process.env.WEBHOOK_SECRET = 'global-webhook-secret';
+  process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+  process.env.WEBHOOK_RETRY_BASE_MS = '100';
+  process.env.WEBHOOK_TIMEOUT_MS = '1000';
+  process.env.WEBHOOK_PROGRESS_STEP = '10';
+});
+
+interface ReceivedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  receivedAt: number;
+}
+
+let server: http.Server;
+let baseUrl: string;
+let received: ReceivedRequest[] = [];
+// Requests to /flaky fail until this many have been received
+let flakyFailures = 0;
+
+function handle(req: http.IncomingMessage, res: http.ServerResponse) {
+  let body = '';
+  req.on('data', chunk => body += chunk);
+  req.on('end', () => {
+    received.push({ path: req.url ?? '', headers: req.headers, body, receivedAt: Date.now() });
+    const fail = req.url === '/fail' ||
+      (req.url === '/flaky' && received.filter(request => request.path === '/flaky').length <= flakyFailures);
+    res.writeHead(fail ? 500 : 200, { 'Content-Type': 'text/plain' });
+    res.end(fail ? 'receiver error' : 'thanks');
+  });
+}
+
+beforeAll(async () => {
+  server = http.createServer(handle);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+let storage: MemStorage;
+let dispatcher: WebhookDispatcher;
+
+beforeEach(() => {
+  received = [];
+  flakyFailures = 0;
+  storage = new MemStorage();
+  dispatcher = new WebhookDispatcher(storage);
+  // The stand-in receiver listens on loopback
+  config.DOWNLOAD_ALLOW_PRIVATE_NETWORKS = true;
+});
+
+afterEach(() => {
+  config.DOWNLOAD_ALLOW_PRIVATE_NETWORKS = false;
+});
+
+async function createJob(overrides: Partial<VideoJob> = {}): Promise<VideoJob> {
+  const job = await storage.createVideoJob(insertVideoJobSchema.parse({
+    video_creation_id: 'creation-1',
+    title: 'Late Night Mix',
+    channel_id: 'channel-1',
+    thumbnail_url: 'https://example.com/thumb.jpg',
+    songs: [{ file_url: 'https://example.com/a.mp3', length: 180, artist: 'Artist', title: 'Song' }],
+  }));
+  return (await storage.updateVideoJob(job.id, overrides))!;
+}
+
+// Wait for a delivery to succeed or fail for good
+async function settled(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  return vi.waitFor(async () => {
+    const current = await storage.getWebhookDelivery(delivery.id);
+    if (!current || current.status === 'pending') throw new Error(`Delivery ${delivery.id} is still pending`);
+    return current;
+  }, { timeout: 3000, interval: 20 });
+}
+
+describe('signPayload', () => {
+  it('signs "<timestamp>.<body>" with HMAC-SHA256', () => {
+    const expected = crypto.createHmac('sha256', 'secret').update('1700000000.{"a":1}').digest('hex');
+
+    expect(signPayload('{"a":1}', '1700000000', 'secret')).toBe(expected);
+    expect(signPayload('{"a":1}', '1700000001', 'secret')).not.toBe(expected);
+    expect(signPayload('{"a":1}', '1700000000', 'other-secret')).not.toBe(expected);
+  });
+});
+
+describe('retryDelayMs', () => {
+  it('doubles the base delay with every attempt', () => {
+    expect([0, 1, 2, 3, 4].map(retryDelayMs)).toEqual([100, 100, 200, 400, 800]);
+  });
+});
+
+describe('classifyJobUpdate', () => {
+  const job = (status: VideoJob['status'], progress = 0) => ({ status, progress }) as VideoJob;
+
+  it('maps status changes to events', () => {
+    expect(classifyJobUpdate(undefined, job('queued'))).toBe('job.queued');
+    expect(classifyJobUpdate({ status: 'queued', progress: 0 }, job('downloading'))).toBe('job.started');
+    expect(classifyJobUpdate({ status: 'downloading', progress: 20 }, job('processing_audio', 20))).toBe('job.stage_changed');
+    expect(classifyJobUpdate({ status: 'processing_audio', progress: 40 }, job('creating_video', 40))).toBe('job.stage_changed');
+    expect(classifyJobUpdate({ status: 'creating_video', progress: 90 }, job('completed', 100))).toBe('job.completed');
+    expect(classifyJobUpdate({ status: 'creating_video', progress: 50 }, job('failed', 50))).toBe('job.failed');
+    expect(classifyJobUpdate({ status: 'queued', progress: 0 }, job('cancelled'))).toBe('job.cancelled');
+  });
+
+  it('reports progress in steps of WEBHOOK_PROGRESS_STEP', () => {
+    expect(classifyJobUpdate({ status: 'creating_video', progress: 40 }, job('creating_video', 49))).toBeNull();
+    expect(classifyJobUpdate({ status: 'creating_video', progress: 40 }, job('creating_video', 50))).toBe('job.progress');
+  });
+
+  it('ignores updates that keep a queued or final status', () => {
+    expect(classifyJobUpdate({ status: 'queued', progress: 0 }, job('queued', 50))).toBeNull();
+    expect(classifyJobUpdate({ status: 'completed', progress: 100 }, job('completed', 100))).toBeNull();
+    expect(classifyJobUpdate({ status: 'failed', progress: 0 }, job('failed', 50))).toBeNull();
+  });
+});
+
+describe('buildWebhookPayload', () => {
+  it('describes the job with ISO timestamps and its processing time', async () => {
+    const job = await createJob({
+      status: 'completed',
+      progress: 100,
+      video_url: 'https://example.com/video.mp4',
+      started_at: new Date('2024-01-01T00:00:00Z'),
+      completed_at: new Date('2024-01-01T00:02:30Z'),
+    });
+
+    const payload = buildWebhookPayload('job.completed', job, 'creating_video');
+
+    expect(payload).toMatchObject({
+      version: WEBHOOK_PAYLOAD_VERSION,
+      event: 'job.completed',
+      previous_status: 'creating_video',
+      job: {
+        job_id: job.id,
+        video_creation_id: 'creation-1',
+        status: 'completed',
+        video_url: 'https://example.com/video.mp4',
+        warnings: [],
+        tracklist: null,
+        started_at: '2024-01-01T00:00:00.000Z',
+        completed_at: '2024-01-01T00:02:30.000Z',
+        failed_at: null,
+        processing_time_seconds: 150,
+      },
+    });
+    expect(payload.job).not.toHaveProperty('callback_url');
+  });
+});
+
+describe('WebhookDispatcher', () => {
+  it('delivers signed payloads and records the response', async () => {
+    const job = await createJob({ status: 'completed', callback_url: `${baseUrl}/ok` });
+
+    const [delivery] = await dispatcher.dispatch('job.completed', job, 'creating_video');
+    const result = await settled(delivery);
+
+    expect(result).toMatchObject({ status: 'succeeded', attempts: 1, response_status: 200, response_body: 'thanks', error_message: null });
+    expect(result.delivered_at).toBeInstanceOf(Date);
+    expect(received).toHaveLength(1);
+
+    const [request] = received;
+    expect(JSON.parse(request.body)).toEqual(delivery.payload);
+    expect(request.headers['x-webhook-event']).toBe('job.completed');
+    expect(request.headers['x-webhook-delivery']).toBe(String(delivery.id));
+    const timestamp = request.headers['x-webhook-timestamp'] as string;
+    expect(request.headers['x-webhook-signature']).toBe(`sha256=${signPayload(request.body, timestamp, 'global-webhook-secret')}`);
+  });
+
+  it('signs with the endpoint secret when the endpoint has one', async () => {
+    const job = await createJob({ status: 'downloading' });
+    await storage.createWebhookEndpoint({ url: `${baseUrl}/ok`, secret: 'endpoint-secret-value' });
+
+    const [delivery] = await dispatcher.dispatch('job.started', job, 'queued');
+    await settled(delivery);
+
+    const [request] = received;
+    const timestamp = request.headers['x-webhook-timestamp'] as string;
+    expect(request.headers['x-webhook-signature']).toBe(`sha256=${signPayload(request.body, timestamp, 'endpoint-secret-value')}`);
+  });
+
+  it('retries failed deliveries with backoff', async () => {
+    flakyFailures = 2;
+    const job = await createJob({ status: 'failed', callback_url: `${baseUrl}/flaky` });
+
+    const [delivery] = await dispatcher.dispatch('job.failed', job, 'creating_video');
+    const result = await settled(delivery);
+
+    expect(result).toMatchObject({ status: 'succeeded', attempts: 3, response_status: 200 });
+    expect(received).toHaveLength(3);
+    // 100ms after the first attempt, then 200ms after the second, give or take timer rounding
+    expect(received[1].receivedAt - received[0].receivedAt).toBeGreaterThanOrEqual(90);
+    expect(received[2].receivedAt - received[1].receivedAt).toBeGreaterThanOrEqual(190);
+  });
+
+  it('fails a delivery after WEBHOOK_MAX_ATTEMPTS attempts', async () => {
+    const job = await createJob({ status: 'failed', callback_url: `${baseUrl}/fail` });
+
+    const [delivery] = await dispatcher.dispatch('job.failed', job, 'creating_video');
+    const result = await settled(delivery);
+
+    expect(result).toMatchObject({
+      status: 'failed',
+      attempts: 3,
+      response_status: 500,
+      response_body: 'receiver error',
+      error_message: 'Receiver responded with 500 Internal Server Error',
+      next_attempt_at: null,
+    });
+    expect(received).toHaveLength(3);
+  });
+
+  it('fails deliveries blocked by the URL policy without retrying', async () => {
+    config.DOWNLOAD_ALLOW_PRIVATE_NETWORKS = false;
+    const job = await createJob({ status: 'completed', callback_url: `${baseUrl}/ok` });
+
+    const [delivery] = await dispatcher.dispatch('job.completed', job, 'creating_video');
+    const result = await settled(delivery);
+
+    expect(result.status).toBe('failed');
+    expect(result.attempts).toBe(1);
+    expect(result.error_message).toMatch(/private or reserved address/);
+    expect(received).toHaveLength(0);
+  });
+
+  it('sends each event to the callback and the endpoints subscribed to it', async () => {
+    const job = await createJob({ status: 'completed', callback_url: `${baseUrl}/ok?callback` });
+    const all = await storage.createWebhookEndpoint({ url: `${baseUrl}/ok?all` });
+    const completed = await storage.createWebhookEndpoint({ url: `${baseUrl}/ok?completed`, events: ['job.completed'] });
+    await storage.createWebhookEndpoint({ url: `${baseUrl}/ok?failed`, events: ['job.failed'] });
+    await storage.createWebhookEndpoint({ url: `${baseUrl}/ok?inactive`, active: false });
+
+    const deliveries = await dispatcher.dispatch('job.completed', job, 'creating_video');
+    expect(deliveries.map(delivery => [delivery.url, delivery.endpoint_id])).toEqual([
+      [`${baseUrl}/ok?callback`, null],
+      [`${baseUrl}/ok?all`, all.id],
+      [`${baseUrl}/ok?completed`, completed.id],
+    ]);
+
+    // The callback only gets job.completed and job.failed
+    const progress = await dispatcher.dispatch('job.progress', job, 'creating_video');
+    expect(progress.map(delivery => delivery.url)).toEqual([`${baseUrl}/ok?all`]);
+
+    await Promise.all([...deliveries, ...progress].map(settled));
+    expect(received.map(request => request.path).sort()).toEqual([
+      '/ok?all',
+      '/ok?all',
+      '/ok?callback',
+      '/ok?completed',
+    ]);
+  });
+
+  it('redelivers a past delivery as a new one', async () => {
+    const job = await createJob({ status: 'completed', callback_url: `${baseUrl}/ok` });
+    const [delivery] = await dispatcher.dispatch('job.completed', job, 'creating_video');
+    const original = await settled(delivery);
+
+    const copy = await dispatcher.redeliver(original);
+    const result = await settled(copy);
+
+    expect(copy.id).not.toBe(original.id);
+    expect(result).toMatchObject({ status: 'succeeded', attempts: 1, event: 'job.completed', url: original.url });
+    expect(received).toHaveLength(2);
+    expect(received[1].body).toBe(received[0].body);
+    expect(received[1].headers['x-webhook-delivery']).toBe(String(copy.id));
+    expect((await storage.getWebhookDeliveries(job.id)).map(d => d.id)).toEqual([copy.id, original.id]);
+  });
+});
@@ -0,0 +1,306 @@
+import crypto from 'crypto';
+import fetch from 'node-fetch';
+import { TERMINAL_STATUSES, type JobStatus, type JobWarning, type TracklistEntry, type VideoJob, type WebhookDelivery, type WebhookEvent } from '@shared/schema';
+import { WEBHOOK_PAYLOAD_VERSION, webhookPayloadSchema, type WebhookPayload } from '@shared/webhooks';
+import { config } from '../config/environment';
+import { storage, type IStorage } from '../storage';
+import { jobEvents, type JobEvent } from '../jobEvents';
+import { assertUrlAllowed, isRetryable, policyAgent } from './downloader';
+
+// Only the start of a receiver's response is kept for the delivery log
+const RESPONSE_BODY_LIMIT = 2048;
+
+// Events sent to a job's callback_url / WEBHOOK_URL; registered endpoints choose their own
+const CALLBACK_EVENTS: WebhookEvent[] = ['job.completed', 'job.failed'];
+
+// Jobs whose last status we remember; the oldest are forgotten beyond this
+const MAX_TRACKED_JOBS = 10000;
+
+interface TrackedJob {
+  status: string;
+  // Progress at the last job.progress (or status) event
+  progress: number;
+}
+
+function toIsoString(date: Date | string | null): string | null {
+  return date ? new Date(date).toISOString() : null;
+}
+
+function secondsBetween(start: Date | null, end: Date | null): number | null {
+  if (!start || !end) return null;
+  return Math.round((new Date(end).getTime() - new Date(start).getTime()) / 1000);
+}
+
+// The versioned payload for one job event, checked against the shared schema
+export function buildWebhookPayload(event: WebhookEvent, job: VideoJob, previousStatus: JobStatus | null): WebhookPayload {
+  return webhookPayloadSchema.parse({
+    version: WEBHOOK_PAYLOAD_VERSION,
+    event,
+    occurred_at: new Date().toISOString(),
+    previous_status: previousStatus,
+    job: {
+      job_id: job.id,
+      video_creation_id: job.video_creation_id,
+      title: job.title,
+      channel_id: job.channel_id,
+      thumbnail_url: job.thumbnail_url,
+      songs: job.songs,
+      status: job.status,
+      progress: job.progress,
+      video_url: job.video_url,
+      error_message: job.error_message,
+      warnings: (job.warnings as JobWarning[] | null) ?? [],
+      tracklist: (job.tracklist as TracklistEntry[] | null) ?? null,
+      created_at: toIsoString(job.created_at),
+      started_at: toIsoString(job.started_at),
+      completed_at: toIsoString(job.completed_at),
+      failed_at: toIsoString(job.failed_at),
+      cancelled_at: toIsoString(job.cancelled_at),
+      processing_time_seconds: secondsBetween(job.started_at, job.completed_at ?? job.failed_at ?? job.cancelled_at),
+    },
+  });
+}
+
+// Which webhook event a job update represents, given the last state seen for the job
+export function classifyJobUpdate(previous: TrackedJob | undefined, job: VideoJob): WebhookEvent | null {
+  if (previous?.status === job.status) {
+    const progressed = (job.progress ?? 0) - previous.progress;
+    return !TERMINAL_STATUSES.includes(job.status) && job.status !== 'queued' && progressed >= config.WEBHOOK_PROGRESS_STEP
+      ? 'job.progress'
+      : null;
+  }
+
+  switch (job.status) {
+    case 'queued':
+      return 'job.queued';
+    case 'downloading':
+      return 'job.started';
+    case 'processing_audio':
+    case 'creating_video':
+      return 'job.stage_changed';
+    case 'completed':
+      return 'job.completed';
+    case 'failed':
+      return 'job.failed';
+    case 'cancelled':
+      return 'job.cancelled';
+    default:
+      return null;
+  }
+}
+
+// HMAC-SHA256 over "<timestamp>.<body>", so a captured delivery can't be replayed under a new timestamp
+export function signPayload(body: string, timestamp: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Exponential backoff: base, 2x base, 4x base, ...
+export function retryDelayMs(attempts: number): number {
+  return config.WEBHOOK_RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0);
+}
+
+// Turns job updates into webhook events, sends them and retries failed
+// deliveries. Every delivery is persisted, so pending retries survive a restart.
+export class WebhookDispatcher {
+  private timers = new Map<number, NodeJS.Timeout>();
+  private trackedJobs = new Map<string, TrackedJob>();
+  private listening = false;
+
+  constructor(private storage: IStorage) {}
+
+  // Listen for job updates and resume deliveries left pending by the last run
+  async start() {
+    if (!this.listening) {
+      jobEvents.subscribe(event => this.handleJobEvent(event));
+      this.listening = true;
+    }
+    await this.resumePending();
+  }
+
+  private handleJobEvent(event: JobEvent) {
+    if (event.type === 'deleted') {
+      this.trackedJobs.delete(event.jobId);
+      return;
+    }
+
+    const { job } = event;
+    const previous = this.trackedJobs.get(job.id);
+    const webhookEvent = classifyJobUpdate(previous, job);
+    if (!previous || webhookEvent) {
+      // Re-insert so the Map's order stays least-recently-updated first
+      this.trackedJobs.delete(job.id);
+      this.trackedJobs.set(job.id, { status: job.status, progress: job.progress ?? 0 });
+      if (this.trackedJobs.size > MAX_TRACKED_JOBS) {
+        this.trackedJobs.delete(this.trackedJobs.keys().next().value!);
+      }
+    }
+    if (!webhookEvent) return;
+
+    this.dispatch(webhookEvent, job, (previous?.status as JobStatus | undefined) ?? null).catch(error => {
+      console.error(`❌ Failed to queue ${webhookEvent} webhooks for job ${job.id}:`, error);
+    });
+  }
+
+  // Record and send one delivery per receiver of the event: the job's
+  // callback_url (or WEBHOOK_URL) for terminal events, plus every active
+  // registered endpoint subscribed to it
+  async dispatch(event: WebhookEvent, job: VideoJob, previousStatus: JobStatus | null): Promise<WebhookDelivery[]> {
+    const targets: { url: string; endpointId: number | null }[] = [];
+
+    const callbackUrl = job.callback_url ?? config.WEBHOOK_URL;
+    if (callbackUrl && CALLBACK_EVENTS.includes(event)) {
+      targets.push({ url: callbackUrl, endpointId: null });
+    }
+    for (const endpoint of await this.storage.getWebhookEndpoints()) {
+      const events = endpoint.events as WebhookEvent[];
+      if (endpoint.active && (events.length === 0 || events.includes(event))) {
+        targets.push({ url: endpoint.url, endpointId: endpoint.id });
+      }
+    }
+    if (targets.length === 0) return [];
+
+    const payload = buildWebhookPayload(event, job, previousStatus);
+    const deliveries: WebhookDelivery[] = [];
+    for (const target of targets) {
+      const delivery = await this.storage.createWebhookDelivery({
+        job_id: job.id,
+        endpoint_id: target.endpointId,
+        event,
+        url: target.url,
+        payload,
+        next_attempt_at: new Date(),
+      });
+      this.schedule(delivery);
+      deliveries.push(delivery);
+    }
+    return deliveries;
+  }
+
+  // Send a past delivery's payload again as a new delivery
+  async redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const copy = await this.storage.createWebhookDelivery({
+      job_id: delivery.job_id,
+      endpoint_id: delivery.endpoint_id,
+      event: delivery.event,
+      url: delivery.url,
+      payload: delivery.payload,
+      next_attempt_at: new Date(),
+    });
+    this.schedule(copy);
+    return copy;
+  }
+
+  // Reschedule deliveries that were still pending when the server stopped
+  private async resumePending() {
+    const pending = await this.storage.getPendingWebhookDeliveries();
+    if (pending.length > 0) {
+      console.log(`🔁 Resuming ${pending.length} pending webhook delivery(ies)`);
+    }
+    for (const delivery of pending) {
+      this.schedule(delivery);
+    }
+  }
+
+  private schedule(delivery: WebhookDelivery) {
+    if (this.timers.has(delivery.id)) return;
+
+    const dueAt = delivery.next_attempt_at ? new Date(delivery.next_attempt_at).getTime() : Date.now();
+    const timer = setTimeout(() => {
+      this.timers.delete(delivery.id);
+      this.attempt(delivery.id).catch(error => {
+        console.error(`❌ Webhook delivery ${delivery.id} could not be processed:`, error);
+      });
+    }, Math.max(dueAt - Date.now(), 0));
+    // Pending retries shouldn't keep the process alive on shutdown
+    timer.unref();
+    this.timers.set(delivery.id, timer);
+  }
+
+  private async attempt(deliveryId: number) {
+    const delivery = await this.storage.getWebhookDelivery(deliveryId);
+    if (!delivery || delivery.status !== 'pending') return;
+
+    const attempts = delivery.attempts + 1;
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'VideoMaestro/1.0',
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Delivery': String(delivery.id),
+      'X-Webhook-Timestamp': timestamp,
+    };
+    // Registered endpoints may have their own secret
+    const endpoint = delivery.endpoint_id ? await this.storage.getWebhookEndpoint(delivery.endpoint_id) : undefined;
+    const secret = endpoint?.secret ?? config.WEBHOOK_SECRET;
+    if (secret) {
+      headers['X-Webhook-Signature'] = `sha256=${signPayload(body, timestamp, secret)}`;
+    }
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let errorMessage: string | null = null;
+    let retryable = true;
+    try {
+      // Receivers get the same URL policy as downloads, and redirects aren't followed
+      assertUrlAllowed(new URL(delivery.url));
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers,
+        body,
+        redirect: 'manual',
+        agent: policyAgent,
+        signal: AbortSignal.timeout(config.WEBHOOK_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT);
+      if (!response.ok) {
+        errorMessage = `Receiver responded with ${response.status} ${response.statusText}`;
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      retryable = isRetryable(error);
+    }
+
+    const now = new Date();
+    const result = {
+      attempts,
+      response_status: responseStatus,
+      response_body: responseBody,
+      error_message: errorMessage,
+      last_attempt_at: now,
+    };
+
+    if (!errorMessage) {
+      await this.storage.updateWebhookDelivery(delivery.id, {
+        ...result,
+        status: 'succeeded',
+        next_attempt_at: null,
+        delivered_at: now,
+      });
+      console.log(`✅ Webhook ${delivery.event} delivered for job ${delivery.job_id} (attempt ${attempts})`);
+      return;
+    }
+
+    // A blocked receiver stays blocked, so it isn't retried
+    if (!retryable || attempts >= config.WEBHOOK_MAX_ATTEMPTS) {
+      await this.storage.updateWebhookDelivery(delivery.id, {
+        ...result,
+        status: 'failed',
+        next_attempt_at: null,
+      });
+      console.error(`❌ Webhook ${delivery.event} for job ${delivery.job_id} failed after ${attempts} attempt(s): ${errorMessage}`);
+      return;
+    }
+
+    const delayMs = retryDelayMs(attempts);
+    const updated = await this.storage.updateWebhookDelivery(delivery.id, {
+      ...result,
+      next_attempt_at: new Date(now.getTime() + delayMs),
+    });
+    console.warn(`⚠️ Webhook ${delivery.event} for job ${delivery.job_id} failed (${errorMessage}), retrying in ${Math.round(delayMs / 1000)}s`);
+    if (updated) this.schedule(updated);
+  }
+}
+
+export const webhooks = new WebhookDispatcher(storage);
@@ -0,0 +1,272 @@
+import fs from "fs";
+import path from "path";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { newDb } from "pg-mem";
+import { beforeEach, describe, expect, it } from "vitest";
+import * as schema from "@shared/schema";
+import { insertVideoJobSchema, type InsertVideoJob } from "@shared/schema";
+import { DrizzleStorage, MemStorage, type IStorage } from "./storage";
+
+const MIGRATIONS_FOLDER = path.resolve(import.meta.dirname, "..", "migrations");
+
+// DrizzleStorage on an in-memory PostgreSQL with every migration applied
+function createDrizzleStorage(): IStorage {
+  const mem = newDb();
+  const migrations = fs.readdirSync(MIGRATIONS_FOLDER).filter(file => file.endsWith(".sql")).sort();
+  for (const file of migrations) {
+    const statements = fs.readFileSync(path.join(MIGRATIONS_FOLDER, file), "utf8").split("--> statement-breakpoint");
+    for (const statement of statements) {
+      if (statement.trim()) mem.public.none(statement);
+    }
+  }
+
+  // pg-mem supports neither per-query type parsers nor array rows, and returns
+  // Date objects where drizzle expects timestamps as PostgreSQL sends them
+  const { Pool } = mem.adapters.createPg();
+  class DrizzlePool extends Pool {
+    async query(config: any, values?: unknown[]) {
+      const { types: _types, rowMode, ...query } = config;
+      const result = await super.query(query, values);
+      result.rows = result.rows.map((row: Record<string, unknown>) => {
+        for (const [key, value] of Object.entries(row)) {
+          if (value instanceof Date) row[key] = value.toISOString().replace("T", " ").replace("Z", "");
+        }
+        return rowMode === "array" ? Object.values(row) : row;
+      });
+      return result;
+    }
+  }
+  return new DrizzleStorage(drizzle(new DrizzlePool(), { schema }));
+}
+
+function jobInput(overrides: Partial<InsertVideoJob> = {}): InsertVideoJob {
+  return insertVideoJobSchema.parse({
+    video_creation_id: "creation-1",
+    title: "Late Night Mix",
+    channel_id: "channel-1",
+    thumbnail_url: "https://example.com/thumb.jpg",
+    songs: [{ file_url: "https://example.com/a.mp3", length: 180, artist: "Artist", title: "Song" }],
+    ...overrides,
+  });
+}
+
+const implementations: [string, () => IStorage][] = [
+  ["MemStorage", () => new MemStorage()],
+  ["DrizzleStorage", createDrizzleStorage],
+];
+
+describe.each(implementations)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+
+  beforeEach(() => {
+    storage = createStorage();
+  });
+
+  describe("video jobs", () => {
+    it("creates queued jobs with defaults", async () => {
+      const job = await storage.createVideoJob(jobInput());
+
+      expect(job.id).toEqual(expect.any(String));
+      expect(job.status).toBe("queued");
+      expect(job.progress).toBe(0);
+      expect(job.attempts).toBe(0);
+      expect(job.priority).toBe(0);
+      expect(job.loop_mode).toBe("loop_to_duration");
+      expect(job.crossfade_seconds).toBe(0);
+      expect(job.thumbnail_fit).toBe("contain");
+      expect(job.songs).toEqual(jobInput().songs);
+      expect(job.created_at).toBeInstanceOf(Date);
+      expect(await storage.getVideoJob(job.id)).toEqual(job);
+    });
+
+    it("returns undefined for unknown jobs", async () => {
+      expect(await storage.getVideoJob("missing")).toBeUndefined();
+      expect(await storage.updateVideoJob("missing", { status: "failed" })).toBeUndefined();
+      expect(await storage.deleteVideoJob("missing")).toBe(false);
+    });
+
+    it("updates jobs without changing their id or creation time", async () => {
+      const job = await storage.createVideoJob(jobInput());
+      const startedAt = new Date();
+
+      const updated = await storage.updateVideoJob(job.id, {
+        id: "other",
+        created_at: new Date(0),
+        status: "processing_audio",
+        progress: 40,
+        started_at: startedAt,
+      });
+
+      expect(updated?.id).toBe(job.id);
+      expect(updated?.status).toBe("processing_audio");
+      expect(updated?.progress).toBe(40);
+      expect(updated?.started_at?.getTime()).toBe(startedAt.getTime());
+      expect((await storage.getVideoJob(job.id))?.status).toBe("processing_audio");
+    });
+
+    it("lists all jobs and only unfinished ones as active", async () => {
+      const queued = await storage.createVideoJob(jobInput());
+      const running = await storage.createVideoJob(jobInput());
+      const done = await storage.createVideoJob(jobInput());
+      await storage.updateVideoJob(running.id, { status: "creating_video" });
+      await storage.updateVideoJob(done.id, { status: "completed" });
+
+      const all = await storage.getAllVideoJobs();
+      expect(all.map(job => job.id).sort()).toEqual([queued.id, running.id, done.id].sort());
+      const active = await storage.getActiveVideoJobs();
+      expect(active.map(job => job.id).sort()).toEqual([queued.id, running.id].sort());
+    });
+
+    it("counts jobs by status", async () => {
+      const jobs = await Promise.all([1, 2, 3, 4, 5, 6].map(() => storage.createVideoJob(jobInput())));
+      await storage.updateVideoJob(jobs[1].id, { status: "downloading" });
+      await storage.updateVideoJob(jobs[2].id, { status: "processing_audio" });
+      await storage.updateVideoJob(jobs[3].id, { status: "completed" });
+      await storage.updateVideoJob(jobs[4].id, { status: "failed" });
+      await storage.updateVideoJob(jobs[5].id, { status: "cancelled" });
+
+      expect(await storage.getJobStats()).toEqual({
+        active: 2,
+        completed: 1,
+        queued: 1,
+        failed: 1,
+        cancelled: 1,
+      });
+    });
+
+    it("deletes jobs together with their webhook deliveries", async () => {
+      const job = await storage.createVideoJob(jobInput());
+      await storage.createWebhookDelivery({
+        job_id: job.id,
+        event: "job.completed",
+        url: "https://example.com/hook",
+        payload: { id: job.id },
+      });
+
+      expect(await storage.deleteVideoJob(job.id)).toBe(true);
+      expect(await storage.getVideoJob(job.id)).toBeUndefined();
+      expect(await storage.getWebhookDeliveries(job.id)).toEqual([]);
+      expect(await storage.getPendingWebhookDeliveries()).toEqual([]);
+    });
+  });
+
+  describe("webhook deliveries", () => {
+    it("creates pending deliveries and lists them per job, newest first", async () => {
+      const job = await storage.createVideoJob(jobInput());
+      const other = await storage.createVideoJob(jobInput());
+      const first = await storage.createWebhookDelivery({
+        job_id: job.id,
+        event: "job.started",
+        url: "https://example.com/hook",
+        payload: { status: "downloading" },
+      });
+      const second = await storage.createWebhookDelivery({
+        job_id: job.id,
+        event: "job.completed",
+        url: "https://example.com/hook",
+        payload: { status: "completed" },
+      });
+      await storage.createWebhookDelivery({
+        job_id: other.id,
+        event: "job.failed",
+        url: "https://example.com/hook",
+        payload: {},
+      });
+
+      expect(first.status).toBe("pending");
+      expect(first.attempts).toBe(0);
+      expect(first.endpoint_id).toBeNull();
+      expect(first.response_body).toBeNull();
+      expect(second.id).toBeGreaterThan(first.id);
+      expect(await storage.getWebhookDelivery(first.id)).toEqual(first);
+      expect((await storage.getWebhookDeliveries(job.id)).map(d => d.id)).toEqual([second.id, first.id]);
+    });
+
+    it("lists pending deliveries oldest first", async () => {
+      const job = await storage.createVideoJob(jobInput());
+      const deliveries = [];
+      for (const event of ["job.started", "job.progress", "job.completed"]) {
+        deliveries.push(await storage.createWebhookDelivery({
+          job_id: job.id,
+          event,
+          url: "https://example.com/hook",
+          payload: {},
+        }));
+      }
+      await storage.updateWebhookDelivery(deliveries[1].id, {
+        status: "delivered",
+        attempts: 1,
+        response_status: 200,
+        delivered_at: new Date(),
+      });
+
+      const pending = await storage.getPendingWebhookDeliveries();
+      expect(pending.map(d => d.id)).toEqual([deliveries[0].id, deliveries[2].id]);
+
+      const delivered = await storage.getWebhookDelivery(deliveries[1].id);
+      expect(delivered?.status).toBe("delivered");
+      expect(delivered?.response_status).toBe(200);
+      expect(await storage.updateWebhookDelivery(9999, { status: "failed" })).toBeUndefined();
+    });
+  });
+
+  describe("webhook endpoints", () => {
+    it("creates, updates and lists endpoints", async () => {
+      const endpoint = await storage.createWebhookEndpoint({ url: "https://example.com/a" });
+      const other = await storage.createWebhookEndpoint({
+        url: "https://example.com/b",
+        events: ["job.completed"],
+        secret: "0123456789abcdef",
+        description: "Publishing",
+        active: false,
+      });
+
+      expect(endpoint).toMatchObject({ url: "https://example.com/a", events: [], secret: null, description: null, active: true });
+      expect(other).toMatchObject({ events: ["job.completed"], secret: "0123456789abcdef", active: false });
+
+      const updated = await storage.updateWebhookEndpoint(endpoint.id, { active: false, description: "Paused" });
+      expect(updated).toMatchObject({ id: endpoint.id, active: false, description: "Paused" });
+      expect((await storage.getWebhookEndpoints()).map(e => e.id)).toEqual([endpoint.id, other.id]);
+      expect(await storage.updateWebhookEndpoint(9999, { active: true })).toBeUndefined();
+    });
+
+    it("keeps deliveries of deleted endpoints without the endpoint", async () => {
+      const job = await storage.createVideoJob(jobInput());
+      const endpoint = await storage.createWebhookEndpoint({ url: "https://example.com/a" });
+      const delivery = await storage.createWebhookDelivery({
+        job_id: job.id,
+        endpoint_id: endpoint.id,
+        event: "job.completed",
+        url: endpoint.url,
+        payload: {},
+      });
+
+      expect(await storage.deleteWebhookEndpoint(endpoint.id)).toBe(true);
+      expect(await storage.deleteWebhookEndpoint(endpoint.id)).toBe(false);
+      expect(await storage.getWebhookEndpoint(endpoint.id)).toBeUndefined();
+      expect((await storage.getWebhookDelivery(delivery.id))?.endpoint_id).toBeNull();
+    });
+  });
+
+  describe("channel branding", () => {
+    const overlays = schema.overlaysSchema.parse({ title: { font: "lato" } });
+
+    it("creates, replaces and deletes a channel's branding", async () => {
+      expect(await storage.getChannelBranding("channel-1")).toBeUndefined();
+
+      const created = await storage.setChannelBranding("channel-1", overlays);
+      expect(created.channel_id).toBe("channel-1");
+      expect(created.overlays).toEqual(overlays);
+
+      const replacement = schema.overlaysSchema.parse({ watermark: { url: "https://example.com/logo.png" } });
+      const replaced = await storage.setChannelBranding("channel-1", replacement);
+      expect(replaced.overlays).toEqual(replacement);
+      expect(replaced.created_at.getTime()).toBe(created.created_at.getTime());
+      expect(await storage.getChannelBranding("channel-1")).toEqual(replaced);
+
+      expect(await storage.deleteChannelBranding("channel-1")).toBe(true);
+      expect(await storage.deleteChannelBranding("channel-1")).toBe(false);
+      expect(await storage.getChannelBranding("channel-1")).toBeUndefined();
+    });
+  });
+});
@@ -1,4 +1,22 @@
-import { videoJobs, type VideoJob, type InsertVideoJob } from "@shared/schema";
+import { asc, desc, eq, notInArray, sql } from "drizzle-orm";
+import {
+  channelBranding,
+  TERMINAL_STATUSES,
+  videoJobs,
+  webhookDeliveries,
+  webhookEndpoints,
+  type ChannelBranding,
+  type Overlays,
+  type VideoJob,
+  type InsertVideoJob,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type WebhookEndpoint,
+  type InsertWebhookEndpoint,
+} from "@shared/schema";
+import { config } from "./config/environment";
+import { getDb, type Database } from "./db";
+import { jobEvents } from "./jobEvents";
 
 export interface IStorage {
   getVideoJob(id: string): Promise<VideoJob | undefined>;
@@ -12,16 +30,47 @@ export interface IStorage {
     completed: number;
     queued: number;
     failed: number;
+    cancelled: number;
   }>;
+  getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(jobId: string): Promise<WebhookDelivery[]>;
+  getPendingWebhookDeliveries(): Promise<WebhookDelivery[]>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: number, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined>;
+  getWebhookEndpoint(id: number): Promise<WebhookEndpoint | undefined>;
+  getWebhookEndpoints(): Promise<WebhookEndpoint[]>;
+  createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint>;
+  updateWebhookEndpoint(id: number, updates: Partial<WebhookEndpoint>): Promise<WebhookEndpoint | undefined>;
+  deleteWebhookEndpoint(id: number): Promise<boolean>;
+  getChannelBranding(channelId: string): Promise<ChannelBranding | undefined>;
+  setChannelBranding(channelId: string, overlays: Overlays): Promise<ChannelBranding>;
+  deleteChannelBranding(channelId: string): Promise<boolean>;
+}
+
+// Statuses that count as "active" in stats (queued jobs are counted separately)
+const PROCESSING_STATUSES = ["downloading", "processing_audio", "creating_video"];
+
+function generateJobId(): string {
+  return `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
 export class MemStorage implements IStorage {
   private jobs: Map<string, VideoJob>;
   private currentId: number;
+  private deliveries: Map<number, WebhookDelivery>;
+  private currentDeliveryId: number;
+  private endpoints: Map<number, WebhookEndpoint>;
+  private currentEndpointId: number;
+  private branding: Map<string, ChannelBranding>;
 
   constructor() {
     this.jobs = new Map();
     this.currentId = 1;
+    this.deliveries = new Map();
+    this.currentDeliveryId = 1;
+    this.endpoints = new Map();
+    this.currentEndpointId = 1;
+    this.branding = new Map();
   }
 
   async getVideoJob(id: string): Promise<VideoJob | undefined> {
@@ -36,39 +85,81 @@ export class MemStorage implements IStorage {
 
   async getActiveVideoJobs(): Promise<VideoJob[]> {
     return Array.from(this.jobs.values())
-      .filter(job => !["completed", "failed"].includes(job.status))
+      .filter(job => !TERMINAL_STATUSES.includes(job.status))
       .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
   }
 
   async createVideoJob(insertJob: InsertVideoJob): Promise<VideoJob> {
-    const id = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const id = generateJobId();
     const job: VideoJob = {
       ...insertJob,
       id,
       status: "queued",
+      priority: insertJob.priority ?? 0,
+      thumbnail_fit: insertJob.thumbnail_fit ?? "contain",
+      thumbnail_pad_color: insertJob.thumbnail_pad_color ?? "#000000",
+      background: insertJob.background ?? null,
+      background_url: insertJob.background_url ?? null,
+      images: insertJob.images ?? null,
+      slide_transition: insertJob.slide_transition ?? "cut",
+      slide_transition_seconds: insertJob.slide_transition_seconds ?? 1,
+      motion: insertJob.motion ?? "none",
+      motion_frame_rate: insertJob.motion_frame_rate ?? null,
+      visualizer: insertJob.visualizer ?? null,
+      now_playing: insertJob.now_playing ?? null,
+      overlays: insertJob.overlays ?? null,
+      callback_url: insertJob.callback_url ?? null,
+      target_duration_seconds: insertJob.target_duration_seconds ?? null,
+      loop_mode: insertJob.loop_mode ?? "loop_to_duration",
+      loop_count: insertJob.loop_count ?? null,
+      crossfade_seconds: insertJob.crossfade_seconds ?? 0,
+      crossfade_curve: insertJob.crossfade_curve ?? "tri",
+      gap_seconds: insertJob.gap_seconds ?? 0,
+      normalize_loudness: insertJob.normalize_loudness ?? false,
+      loudness_target_lufs: insertJob.loudness_target_lufs ?? null,
+      loudness: null,
+      audio_probes: null,
+      strict_durations: insertJob.strict_durations ?? false,
+      warnings: [],
+      tracklist: null,
       progress: 0,
+      attempts: 0,
+      eta_at: null,
       video_url: null,
       error_message: null,
       created_at: new Date(),
       started_at: null,
       completed_at: null,
       failed_at: null,
+      cancelled_at: null,
     };
     this.jobs.set(id, job);
+    jobEvents.publish({ type: "updated", job });
     return job;
   }
 
   async updateVideoJob(id: string, updates: Partial<VideoJob>): Promise<VideoJob | undefined> {
     const job = this.jobs.get(id);
     if (!job) return undefined;
-    
-    const updatedJob = { ...job, ...updates };
+
+    // The primary key and creation time are immutable, as in DrizzleStorage
+    const { id: _id, created_at: _createdAt, ...values } = updates;
+    const updatedJob = { ...job, ...values };
     this.jobs.set(id, updatedJob);
+    jobEvents.publish({ type: "updated", job: updatedJob });
     return updatedJob;
   }
 
   async deleteVideoJob(id: string): Promise<boolean> {
-    return this.jobs.delete(id);
+    const deleted = this.jobs.delete(id);
+    if (deleted) {
+      // Mirror the ON DELETE CASCADE of the database schema
+      for (const delivery of Array.from(this.deliveries.values())) {
+        if (delivery.job_id === id) this.deliveries.delete(delivery.id);
+      }
+      jobEvents.publish({ type: "deleted", jobId: id });
+    }
+    return deleted;
   }
 
   async getJobStats(): Promise<{
@@ -76,15 +167,324 @@ export class MemStorage implements IStorage {
     completed: number;
     queued: number;
     failed: number;
+    cancelled: number;
   }> {
     const jobs = Array.from(this.jobs.values());
     return {
-      active: jobs.filter(j => ["downloading", "processing_audio", "creating_video"].includes(j.status)).length,
+      active: jobs.filter(j => PROCESSING_STATUSES.includes(j.status)).length,
       completed: jobs.filter(j => j.status === "completed").length,
       queued: jobs.filter(j => j.status === "queued").length,
       failed: jobs.filter(j => j.status === "failed").length,
+      cancelled: jobs.filter(j => j.status === "cancelled").length,
+    };
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    return this.deliveries.get(id);
+  }
+
+  async getWebhookDeliveries(jobId: string): Promise<WebhookDelivery[]> {
+    return Array.from(this.deliveries.values())
+      .filter(delivery => delivery.job_id === jobId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getPendingWebhookDeliveries(): Promise<WebhookDelivery[]> {
+    return Array.from(this.deliveries.values())
+      .filter(delivery => delivery.status === "pending")
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createWebhookDelivery(insertDelivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const delivery: WebhookDelivery = {
+      ...insertDelivery,
+      id: this.currentDeliveryId++,
+      endpoint_id: insertDelivery.endpoint_id ?? null,
+      status: insertDelivery.status ?? "pending",
+      attempts: insertDelivery.attempts ?? 0,
+      response_status: null,
+      response_body: null,
+      error_message: null,
+      next_attempt_at: insertDelivery.next_attempt_at ?? null,
+      created_at: new Date(),
+      last_attempt_at: null,
+      delivered_at: null,
+    };
+    this.deliveries.set(delivery.id, delivery);
+    return delivery;
+  }
+
+  async updateWebhookDelivery(id: number, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const delivery = this.deliveries.get(id);
+    if (!delivery) return undefined;
+
+    const { id: _id, created_at: _createdAt, ...values } = updates;
+    const updatedDelivery = { ...delivery, ...values };
+    this.deliveries.set(id, updatedDelivery);
+    return updatedDelivery;
+  }
+
+  async getWebhookEndpoint(id: number): Promise<WebhookEndpoint | undefined> {
+    return this.endpoints.get(id);
+  }
+
+  async getWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+    return Array.from(this.endpoints.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async createWebhookEndpoint(insertEndpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint> {
+    const endpoint: WebhookEndpoint = {
+      id: this.currentEndpointId++,
+      url: insertEndpoint.url,
+      events: insertEndpoint.events ?? [],
+      secret: insertEndpoint.secret ?? null,
+      description: insertEndpoint.description ?? null,
+      active: insertEndpoint.active ?? true,
+      created_at: new Date(),
+    };
+    this.endpoints.set(endpoint.id, endpoint);
+    return endpoint;
+  }
+
+  async updateWebhookEndpoint(id: number, updates: Partial<WebhookEndpoint>): Promise<WebhookEndpoint | undefined> {
+    const endpoint = this.endpoints.get(id);
+    if (!endpoint) return undefined;
+
+    const { id: _id, created_at: _createdAt, ...values } = updates;
+    const updatedEndpoint = { ...endpoint, ...values };
+    this.endpoints.set(id, updatedEndpoint);
+    return updatedEndpoint;
+  }
+
+  async deleteWebhookEndpoint(id: number): Promise<boolean> {
+    const deleted = this.endpoints.delete(id);
+    if (deleted) {
+      // Mirror the ON DELETE SET NULL of the database schema
+      for (const delivery of Array.from(this.deliveries.values())) {
+        if (delivery.endpoint_id === id) this.deliveries.set(delivery.id, { ...delivery, endpoint_id: null });
+      }
+    }
+    return deleted;
+  }
+
+  async getChannelBranding(channelId: string): Promise<ChannelBranding | undefined> {
+    return this.branding.get(channelId);
+  }
+
+  async setChannelBranding(channelId: string, overlays: Overlays): Promise<ChannelBranding> {
+    const now = new Date();
+    const branding: ChannelBranding = {
+      channel_id: channelId,
+      overlays,
+      created_at: this.branding.get(channelId)?.created_at ?? now,
+      updated_at: now,
+    };
+    this.branding.set(channelId, branding);
+    return branding;
+  }
+
+  async deleteChannelBranding(channelId: string): Promise<boolean> {
+    return this.branding.delete(channelId);
+  }
+}
+
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getVideoJob(id: string): Promise<VideoJob | undefined> {
+    const [job] = await this.db.select().from(videoJobs).where(eq(videoJobs.id, id));
+    return job;
+  }
+
+  async getAllVideoJobs(): Promise<VideoJob[]> {
+    return this.db.select().from(videoJobs).orderBy(desc(videoJobs.created_at));
+  }
+
+  async getActiveVideoJobs(): Promise<VideoJob[]> {
+    return this.db
+      .select()
+      .from(videoJobs)
+      .where(notInArray(videoJobs.status, TERMINAL_STATUSES))
+      .orderBy(desc(videoJobs.created_at));
+  }
+
+  async createVideoJob(insertJob: InsertVideoJob): Promise<VideoJob> {
+    const [job] = await this.db
+      .insert(videoJobs)
+      .values({
+        ...insertJob,
+        id: generateJobId(),
+        status: "queued",
+        progress: 0,
+      })
+      .returning();
+    jobEvents.publish({ type: "updated", job });
+    return job;
+  }
+
+  async updateVideoJob(id: string, updates: Partial<VideoJob>): Promise<VideoJob | undefined> {
+    // The primary key and creation time are immutable
+    const { id: _id, created_at: _createdAt, ...values } = updates;
+    if (Object.keys(values).length === 0) {
+      return this.getVideoJob(id);
+    }
+
+    const [job] = await this.db
+      .update(videoJobs)
+      .set(values)
+      .where(eq(videoJobs.id, id))
+      .returning();
+    if (job) jobEvents.publish({ type: "updated", job });
+    return job;
+  }
+
+  async deleteVideoJob(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(videoJobs)
+      .where(eq(videoJobs.id, id))
+      .returning({ id: videoJobs.id });
+    if (deleted.length > 0) jobEvents.publish({ type: "deleted", jobId: id });
+    return deleted.length > 0;
+  }
+
+  async getJobStats(): Promise<{
+    active: number;
+    completed: number;
+    queued: number;
+    failed: number;
+    cancelled: number;
+  }> {
+    // One count per status, folded into the stats buckets
+    const counts = await this.db
+      .select({
+        status: videoJobs.status,
+        count: sql<number>`count(*)`.mapWith(Number),
+      })
+      .from(videoJobs)
+      .groupBy(videoJobs.status);
+    const countOf = (statuses: string[]) => counts
+      .filter(row => statuses.includes(row.status))
+      .reduce((sum, row) => sum + row.count, 0);
+    return {
+      active: countOf(PROCESSING_STATUSES),
+      completed: countOf(["completed"]),
+      queued: countOf(["queued"]),
+      failed: countOf(["failed"]),
+      cancelled: countOf(["cancelled"]),
     };
   }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  async getWebhookDeliveries(jobId: string): Promise<WebhookDelivery[]> {
+    return this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.job_id, jobId))
+      .orderBy(desc(webhookDeliveries.id));
+  }
+
+  async getPendingWebhookDeliveries(): Promise<WebhookDelivery[]> {
+    return this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.status, "pending"))
+      .orderBy(asc(webhookDeliveries.id));
+  }
+
+  async createWebhookDelivery(insertDelivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [delivery] = await this.db.insert(webhookDeliveries).values(insertDelivery).returning();
+    return delivery;
+  }
+
+  async updateWebhookDelivery(id: number, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const { id: _id, created_at: _createdAt, ...values } = updates;
+    if (Object.keys(values).length === 0) {
+      return this.getWebhookDelivery(id);
+    }
+
+    const [delivery] = await this.db
+      .update(webhookDeliveries)
+      .set(values)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return delivery;
+  }
+
+  async getWebhookEndpoint(id: number): Promise<WebhookEndpoint | undefined> {
+    const [endpoint] = await this.db.select().from(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+    return endpoint;
+  }
+
+  async getWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+    return this.db.select().from(webhookEndpoints).orderBy(asc(webhookEndpoints.id));
+  }
+
+  async createWebhookEndpoint(insertEndpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint> {
+    const [endpoint] = await this.db.insert(webhookEndpoints).values(insertEndpoint).returning();
+    return endpoint;
+  }
+
+  async updateWebhookEndpoint(id: number, updates: Partial<WebhookEndpoint>): Promise<WebhookEndpoint | undefined> {
+    const { id: _id, created_at: _createdAt, ...values } = updates;
+    if (Object.keys(values).length === 0) {
+      return this.getWebhookEndpoint(id);
+    }
+
+    const [endpoint] = await this.db
+      .update(webhookEndpoints)
+      .set(values)
+      .where(eq(webhookEndpoints.id, id))
+      .returning();
+    return endpoint;
+  }
+
+  async deleteWebhookEndpoint(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(webhookEndpoints)
+      .where(eq(webhookEndpoints.id, id))
+      .returning({ id: webhookEndpoints.id });
+    return deleted.length > 0;
+  }
+
+  async getChannelBranding(channelId: string): Promise<ChannelBranding | undefined> {
+    const [branding] = await this.db.select().from(channelBranding).where(eq(channelBranding.channel_id, channelId));
+    return branding;
+  }
+
+  async setChannelBranding(channelId: string, overlays: Overlays): Promise<ChannelBranding> {
+    const [branding] = await this.db
+      .insert(channelBranding)
+      .values({ channel_id: channelId, overlays })
+      .onConflictDoUpdate({
+        target: channelBranding.channel_id,
+        set: { overlays, updated_at: new Date() },
+      })
+      .returning();
+    return branding;
+  }
+
+  async deleteChannelBranding(channelId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(channelBranding)
+      .where(eq(channelBranding.channel_id, channelId))
+      .returning({ channel_id: channelBranding.channel_id });
+    return deleted.length > 0;
+  }
+}
+
+// Use PostgreSQL when DATABASE_URL is configured, otherwise keep jobs in memory
+function createStorage(): IStorage {
+  if (config.DATABASE_URL) {
+    console.log("🗄️ Using PostgreSQL job storage");
+    return new DrizzleStorage(getDb());
+  }
+
+  console.log("🧠 Using in-memory job storage (set DATABASE_URL to persist jobs)");
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
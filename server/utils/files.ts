@@ -0,0 +1,11 @@
+import fs from 'fs/promises';
+
+// Whether a (fully written) artifact exists: a regular file with content
+export async function isNonEmptyFile(filepath: string): Promise<boolean> {
+  try {
+    const stats = await fs.stat(filepath);
+    return stats.isFile() && stats.size > 0;
+  } catch {
+    return false;
+  }
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,15 +8,84 @@ export const videoJobs = pgTable("video_jobs", {
   title: text("title").notNull(),
   channel_id: text("channel_id").notNull(),
   thumbnail_url: text("thumbnail_url").notNull(),
+  thumbnail_fit: text("thumbnail_fit").notNull().default("contain"),
+  thumbnail_pad_color: text("thumbnail_pad_color").notNull().default("#000000"),
+  background: text("background"),
+  background_url: text("background_url"),
+  images: jsonb("images"),
+  slide_transition: text("slide_transition").notNull().default("cut"),
+  slide_transition_seconds: real("slide_transition_seconds").notNull().default(1),
+  motion: text("motion").notNull().default("none"),
+  motion_frame_rate: integer("motion_frame_rate"),
+  visualizer: jsonb("visualizer"),
+  now_playing: jsonb("now_playing"),
+  overlays: jsonb("overlays"),
+  callback_url: text("callback_url"),
   songs: jsonb("songs").notNull(),
+  target_duration_seconds: integer("target_duration_seconds"),
+  loop_mode: text("loop_mode").notNull().default("loop_to_duration"),
+  loop_count: integer("loop_count"),
+  crossfade_seconds: real("crossfade_seconds").notNull().default(0),
+  crossfade_curve: text("crossfade_curve").notNull().default("tri"),
+  gap_seconds: real("gap_seconds").notNull().default(0),
+  normalize_loudness: boolean("normalize_loudness").notNull().default(false),
+  loudness_target_lufs: real("loudness_target_lufs"),
+  loudness: jsonb("loudness"),
+  audio_probes: jsonb("audio_probes"),
+  strict_durations: boolean("strict_durations").notNull().default(false),
+  warnings: jsonb("warnings").notNull().default([]),
+  tracklist: jsonb("tracklist"),
   status: text("status").notNull().default("queued"),
+  priority: integer("priority").notNull().default(0),
   progress: integer("progress").default(0),
+  attempts: integer("attempts").notNull().default(0),
+  eta_at: timestamp("eta_at"),
   video_url: text("video_url"),
   error_message: text("error_message"),
   created_at: timestamp("created_at").defaultNow().notNull(),
   started_at: timestamp("started_at"),
   completed_at: timestamp("completed_at"),
   failed_at: timestamp("failed_at"),
+  cancelled_at: timestamp("cancelled_at"),
+});
+
+// Overlays for every job of a channel that doesn't set its own
+export const channelBranding = pgTable("channel_branding", {
+  channel_id: text("channel_id").primaryKey(),
+  overlays: jsonb("overlays").notNull(),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// A registered receiver for a chosen set of job events (an empty list means all events)
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: serial("id").primaryKey(),
+  url: text("url").notNull(),
+  events: jsonb("events").notNull().default([]),
+  secret: text("secret"),
+  description: text("description"),
+  active: boolean("active").notNull().default(true),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One webhook notification for a job event, retried until it succeeds or runs out of attempts.
+// endpoint_id is null for deliveries to the job's callback_url / WEBHOOK_URL.
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  job_id: text("job_id").notNull().references(() => videoJobs.id, { onDelete: "cascade" }),
+  endpoint_id: integer("endpoint_id").references(() => webhookEndpoints.id, { onDelete: "set null" }),
+  event: text("event").notNull(),
+  url: text("url").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: text("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  response_status: integer("response_status"),
+  response_body: text("response_body"),
+  error_message: text("error_message"),
+  next_attempt_at: timestamp("next_attempt_at"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  last_attempt_at: timestamp("last_attempt_at"),
+  delivered_at: timestamp("delivered_at"),
 });
 
 export const songSchema = z.object({
@@ -24,27 +93,317 @@ export const songSchema = z.object({
   length: z.number().positive(),
   artist: z.string(),
   title: z.string(),
+  // Shown while this song plays (slideshow mode); songs without one show the thumbnail
+  image_url: z.string().url().optional(),
+});
+
+// Slideshow image shown for duration_seconds; the list repeats until the video ends
+export const slideshowImageSchema = z.object({
+  url: z.string().url(),
+  duration_seconds: z.number().min(5).max(3600),
+});
+
+// How the slideshow moves from one image to the next (crossfade and slide use FFmpeg's xfade)
+export const slideTransitionSchema = z.enum(["cut", "crossfade", "slide"]);
+
+export const SLIDESHOW_LIMITS = {
+  maxImages: 50,
+  maxTransitionSeconds: 5,
+};
+
+// Ken Burns motion on each image (FFmpeg's zoompan): a slow zoom, a pan in
+// one direction, or one of those picked at random per image. "none" keeps
+// the still-image encoding, which is far faster.
+export const motionEffectSchema = z.enum([
+  "none", "zoom_in", "zoom_out", "pan_left", "pan_right", "pan_up", "pan_down", "random",
+]);
+
+export const MOTION_FRAME_RATE_LIMITS = {
+  min: 10,
+  max: 60,
+};
+
+// How the playlist is repeated to fill the video:
+// - loop_to_duration: repeat until target_duration_seconds, cutting the last song
+// - play_once: every song once, capped at target_duration_seconds
+// - loop_n_times: the whole playlist loop_count times, capped at target_duration_seconds
+export const loopModeSchema = z.enum(["loop_to_duration", "play_once", "loop_n_times"]);
+
+// How the thumbnail fills the 16:9 frame: letterboxed in a pad color, cropped
+// to fill, or letterboxed over a blurred copy of itself
+export const thumbnailFitSchema = z.enum(["contain", "cover", "blur"]);
+
+export const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a #rrggbb color");
+
+// What fills the frame around contained artwork: black, a solid color
+// ("solid:#rrggbb"), a blurred copy of the artwork or a gradient of its colors.
+// An image background is given with background_url instead.
+export const backgroundSchema = z.union([
+  z.enum(["black", "blur", "gradient"]),
+  z.string().regex(/^solid:#[0-9a-fA-F]{6}$/, "Expected black, blur, gradient or solid:#rrggbb"),
+]);
+
+// Animated audio visualizer drawn over the video: waveform (showwaves),
+// spectrum bars (showfreqs) or a circular vectorscope (avectorscope)
+export const visualizerTypeSchema = z.enum(["waveform", "spectrum", "circular"]);
+
+export const visualizerPositionSchema = z.enum(["top", "center", "bottom"]);
+
+export const visualizerSchema = z.object({
+  type: visualizerTypeSchema,
+  color: hexColorSchema.default("#ffffff"),
+  position: visualizerPositionSchema.default("bottom"),
+  // Height as a fraction of the frame; waveform and spectrum span the full width, circular is square
+  size: z.number().min(0.05).max(1).default(0.25),
+  opacity: z.number().min(0).max(1).default(0.8),
+});
+
+// Lower-third "Artist – Title" text shown during each track, in one of the bundled fonts
+export const overlayFontSchema = z.enum(["lato", "lato_light", "source_code_pro", "source_code_pro_bold"]);
+
+export const overlayPositionSchema = z.enum([
+  "top_left", "top_center", "top_right", "bottom_left", "bottom_center", "bottom_right",
+]);
+
+export const nowPlayingSchema = z.object({
+  font: overlayFontSchema.default("lato"),
+  font_size: z.number().int().min(12).max(120).default(42),
+  color: hexColorSchema.default("#ffffff"),
+  // Translucent box behind the text
+  box: z.boolean().default(true),
+  box_color: hexColorSchema.default("#000000"),
+  box_opacity: z.number().min(0).max(1).default(0.5),
+  position: overlayPositionSchema.default("bottom_left"),
+  // Fade in at the start and out at the end of each track (0 for none)
+  fade_seconds: z.number().min(0).max(5).default(0.5),
+});
+
+export const overlayCornerSchema = z.enum(["top_left", "top_right", "bottom_left", "bottom_right"]);
+
+// A logo image in a corner of the frame
+export const watermarkSchema = z.object({
+  url: z.string().url(),
+  corner: overlayCornerSchema.default("top_right"),
+  opacity: z.number().min(0).max(1).default(0.8),
+  // Width as a fraction of the frame width
+  scale: z.number().min(0.02).max(0.5).default(0.12),
+});
+
+// The job's title, shown for the whole video
+export const titleOverlaySchema = z.object({
+  font: overlayFontSchema.default("lato"),
+  font_size: z.number().int().min(12).max(160).default(56),
+  color: hexColorSchema.default("#ffffff"),
+  box: z.boolean().default(false),
+  box_color: hexColorSchema.default("#000000"),
+  box_opacity: z.number().min(0).max(1).default(0.5),
+  position: overlayPositionSchema.default("top_left"),
+});
+
+// Static branding burned into the video. A job without overlays gets its
+// channel's branding profile, if there is one.
+export const overlaysSchema = z.object({
+  watermark: watermarkSchema.nullish(),
+  title: titleOverlaySchema.nullish(),
+});
+
+// FFmpeg acrossfade curve used for both the outgoing and the incoming track
+export const crossfadeCurveSchema = z.enum(["tri", "qsin", "esin", "hsin", "log", "par", "exp"]);
+
+// Transitions between consecutive tracks: either overlap them by
+// crossfade_seconds or separate them with gap_seconds of silence
+export const AUDIO_TRANSITION_LIMITS = {
+  maxCrossfadeSeconds: 30,
+  maxGapSeconds: 30,
+};
+
+// Integrated loudness targets accepted by FFmpeg's loudnorm filter
+export const LOUDNESS_TARGET_LIMITS = {
+  min: -70,
+  max: -5,
+};
+
+// Per-song result of the loudnorm measurement pass, stored on the job.
+// input_* is the song as downloaded, output_* the normalized estimate.
+export const songLoudnessSchema = z.object({
+  song_index: z.number().int(),
+  input_i: z.number(),
+  input_tp: z.number(),
+  input_lra: z.number(),
+  input_thresh: z.number(),
+  target_offset: z.number(),
+  output_i: z.number(),
+  output_tp: z.number(),
+});
+
+// Song containers accepted after download (see probeAudio)
+export const audioFormatSchema = z.enum(["mp3", "wav", "flac", "ogg", "m4a"]);
+
+// Per-song ffprobe result, stored on the job
+export const songProbeSchema = z.object({
+  song_index: z.number().int(),
+  format: audioFormatSchema,
+  codec: z.string(),
+  sample_rate: z.number().int(),
+  channels: z.number().int(),
+  duration_seconds: z.number(),
+  bit_rate: z.number().int().nullable(),
+});
+
+export const jobWarningCodeSchema = z.enum(["duration_mismatch"]);
+
+// Something worth knowing about a job that didn't stop it, stored on the job
+export const jobWarningSchema = z.object({
+  code: jobWarningCodeSchema,
+  message: z.string(),
+  song_index: z.number().int().nullable(),
+  declared_seconds: z.number().optional(),
+  measured_seconds: z.number().optional(),
+});
+
+// One song occurrence in the output video, in playlist order. end_seconds
+// overlaps the next entry's start by the crossfade, if there is one.
+export const tracklistEntrySchema = z.object({
+  song_index: z.number().int(),
+  loop: z.number().int(),
+  start_seconds: z.number(),
+  end_seconds: z.number(),
+  artist: z.string(),
+  title: z.string(),
+  // Cut short at the end of the video
+  trimmed: z.boolean(),
 });
 
+export const tracklistFormatSchema = z.enum(["youtube", "json", "csv", "cue"]);
+
+// CUE sheets number tracks 01-99
+export const CUE_MAX_TRACKS = 99;
+
+// Hard bounds on songs per job; the server narrows these with
+// MIN_SONGS_PER_JOB / MAX_SONGS_PER_JOB (see GET /api/limits)
+export const SONG_COUNT_LIMITS = {
+  min: 1,
+  max: 100,
+};
+
+export const TARGET_DURATION_LIMITS = {
+  min: 60, // 1 minute
+  max: 14400, // 4 hours
+};
+
 export const insertVideoJobSchema = createInsertSchema(videoJobs).omit({
   id: true,
+  eta_at: true,
   created_at: true,
   started_at: true,
   completed_at: true,
   failed_at: true,
+  cancelled_at: true,
 }).extend({
-  songs: z.array(songSchema).length(10),
+  songs: z.array(songSchema).min(SONG_COUNT_LIMITS.min).max(SONG_COUNT_LIMITS.max),
+  callback_url: z.string().url().nullish(),
+  thumbnail_fit: thumbnailFitSchema.optional(),
+  thumbnail_pad_color: hexColorSchema.optional(),
+  background: backgroundSchema.nullish(),
+  background_url: z.string().url().nullish(),
+  images: z.array(slideshowImageSchema).min(1).max(SLIDESHOW_LIMITS.maxImages).nullish(),
+  slide_transition: slideTransitionSchema.optional(),
+  slide_transition_seconds: z.number().min(0.1).max(SLIDESHOW_LIMITS.maxTransitionSeconds).optional(),
+  motion: motionEffectSchema.optional(),
+  motion_frame_rate: z.number().int().min(MOTION_FRAME_RATE_LIMITS.min).max(MOTION_FRAME_RATE_LIMITS.max).nullish(),
+  visualizer: visualizerSchema.nullish(),
+  now_playing: nowPlayingSchema.nullish(),
+  overlays: overlaysSchema.nullish(),
+  priority: z.number().int().min(-100).max(100).optional(),
+  target_duration_seconds: z.number().int()
+    .min(TARGET_DURATION_LIMITS.min)
+    .max(TARGET_DURATION_LIMITS.max)
+    .nullish(),
+  loop_mode: loopModeSchema.optional(),
+  loop_count: z.number().int().min(1).max(100).nullish(),
+  crossfade_seconds: z.number().min(0).max(AUDIO_TRANSITION_LIMITS.maxCrossfadeSeconds).optional(),
+  crossfade_curve: crossfadeCurveSchema.optional(),
+  gap_seconds: z.number().min(0).max(AUDIO_TRANSITION_LIMITS.maxGapSeconds).optional(),
+  normalize_loudness: z.boolean().optional(),
+  loudness_target_lufs: z.number().min(LOUDNESS_TARGET_LIMITS.min).max(LOUDNESS_TARGET_LIMITS.max).nullish(),
+  strict_durations: z.boolean().optional(),
 }).pick({
   video_creation_id: true,
   title: true,
   channel_id: true,
   thumbnail_url: true,
+  thumbnail_fit: true,
+  thumbnail_pad_color: true,
+  background: true,
+  background_url: true,
+  images: true,
+  slide_transition: true,
+  slide_transition_seconds: true,
+  motion: true,
+  motion_frame_rate: true,
+  visualizer: true,
+  now_playing: true,
+  overlays: true,
+  callback_url: true,
   songs: true,
+  priority: true,
+  target_duration_seconds: true,
+  loop_mode: true,
+  loop_count: true,
+  crossfade_seconds: true,
+  crossfade_curve: true,
+  gap_seconds: true,
+  normalize_loudness: true,
+  loudness_target_lufs: true,
+  strict_durations: true,
+}).refine(job => job.loop_mode !== "loop_n_times" || job.loop_count != null, {
+  message: "loop_count is required when loop_mode is loop_n_times",
+  path: ["loop_count"],
+}).refine(job => !(job.crossfade_seconds && job.gap_seconds), {
+  message: "crossfade_seconds and gap_seconds cannot both be set",
+  path: ["gap_seconds"],
+}).refine(job => !(job.background && job.background_url), {
+  message: "background and background_url cannot both be set",
+  path: ["background_url"],
+}).refine(job => !(job.images?.length && job.songs.some(song => song.image_url)), {
+  message: "images and per-song image_url cannot both be used",
+  path: ["images"],
+});
+
+// Artwork settings rendered by the still-frame preview endpoint
+export const framePreviewSchema = z.object({
+  thumbnail_url: z.string().url(),
+  thumbnail_fit: thumbnailFitSchema.optional(),
+  thumbnail_pad_color: hexColorSchema.optional(),
+  background: backgroundSchema.nullish(),
+  background_url: z.string().url().nullish(),
+}).refine(preview => !(preview.background && preview.background_url), {
+  message: "background and background_url cannot both be set",
+  path: ["background_url"],
 });
 
 export type InsertVideoJob = z.infer<typeof insertVideoJobSchema>;
 export type VideoJob = typeof videoJobs.$inferSelect;
 export type Song = z.infer<typeof songSchema>;
+export type LoopMode = z.infer<typeof loopModeSchema>;
+export type CrossfadeCurve = z.infer<typeof crossfadeCurveSchema>;
+export type ThumbnailFit = z.infer<typeof thumbnailFitSchema>;
+export type Background = z.infer<typeof backgroundSchema>;
+export type FramePreview = z.infer<typeof framePreviewSchema>;
+export type SlideshowImage = z.infer<typeof slideshowImageSchema>;
+export type MotionEffect = z.infer<typeof motionEffectSchema>;
+export type Visualizer = z.infer<typeof visualizerSchema>;
+export type OverlayFont = z.infer<typeof overlayFontSchema>;
+export type OverlayPosition = z.infer<typeof overlayPositionSchema>;
+export type NowPlaying = z.infer<typeof nowPlayingSchema>;
+export type Overlays = z.infer<typeof overlaysSchema>;
+export type SlideTransition = z.infer<typeof slideTransitionSchema>;
+export type SongLoudness = z.infer<typeof songLoudnessSchema>;
+export type AudioFormat = z.infer<typeof audioFormatSchema>;
+export type SongProbe = z.infer<typeof songProbeSchema>;
+export type JobWarning = z.infer<typeof jobWarningSchema>;
+export type TracklistEntry = z.infer<typeof tracklistEntrySchema>;
+export type TracklistFormat = z.infer<typeof tracklistFormatSchema>;
 
 export const jobStatusSchema = z.enum([
   "queued",
@@ -52,7 +411,51 @@ export const jobStatusSchema = z.enum([
   "processing_audio", 
   "creating_video",
   "completed",
-  "failed"
+  "failed",
+  "cancelled"
 ]);
 
 export type JobStatus = z.infer<typeof jobStatusSchema>;
+
+// Statuses a job never leaves
+export const TERMINAL_STATUSES: string[] = ["completed", "failed", "cancelled"] satisfies JobStatus[];
+
+export const webhookEventSchema = z.enum([
+  "job.queued",
+  "job.started",
+  "job.stage_changed",
+  "job.progress",
+  "job.completed",
+  "job.failed",
+  "job.cancelled"
+]);
+
+export const webhookDeliveryStatusSchema = z.enum(["pending", "succeeded", "failed"]);
+
+export type WebhookEvent = z.infer<typeof webhookEventSchema>;
+export type WebhookDeliveryStatus = z.infer<typeof webhookDeliveryStatusSchema>;
+export const insertWebhookEndpointSchema = createInsertSchema(webhookEndpoints).pick({
+  url: true,
+  events: true,
+  secret: true,
+  description: true,
+  active: true,
+}).extend({
+  url: z.string().url(),
+  events: z.array(webhookEventSchema).optional(),
+  secret: z.string().min(16).nullish(),
+  description: z.string().max(200).nullish(),
+  active: z.boolean().optional(),
+});
+
+export type InsertWebhookEndpoint = z.infer<typeof insertWebhookEndpointSchema>;
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+
+// Body of PUT /api/admin/channels/:channelId/branding
+export const channelBrandingInputSchema = z.object({
+  overlays: overlaysSchema,
+});
+
+export type ChannelBranding = typeof channelBranding.$inferSelect;
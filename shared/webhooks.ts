@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { jobStatusSchema, jobWarningSchema, songSchema, tracklistEntrySchema, webhookEventSchema } from "./schema";
+
+// Bumped whenever a change to the payload could break existing receivers
+export const WEBHOOK_PAYLOAD_VERSION = 1;
+
+// Job snapshot included with every event. Timestamps are ISO 8601 strings.
+export const webhookJobSchema = z.object({
+  job_id: z.string(),
+  video_creation_id: z.string(),
+  title: z.string(),
+  channel_id: z.string(),
+  thumbnail_url: z.string(),
+  songs: z.array(songSchema),
+  status: jobStatusSchema,
+  progress: z.number().nullable(),
+  video_url: z.string().nullable(),
+  error_message: z.string().nullable(),
+  warnings: z.array(jobWarningSchema),
+  // Song occurrences in the video, once the playlist has been planned
+  tracklist: z.array(tracklistEntrySchema).nullable(),
+  created_at: z.string().datetime(),
+  started_at: z.string().datetime().nullable(),
+  completed_at: z.string().datetime().nullable(),
+  failed_at: z.string().datetime().nullable(),
+  cancelled_at: z.string().datetime().nullable(),
+  processing_time_seconds: z.number().nullable(),
+});
+
+// Version 1 envelope: one event about one job.
+// previous_status is the job's status before the event, or null for a newly seen job.
+export const webhookPayloadSchema = z.object({
+  version: z.literal(WEBHOOK_PAYLOAD_VERSION),
+  event: webhookEventSchema,
+  occurred_at: z.string().datetime(),
+  previous_status: jobStatusSchema.nullable(),
+  job: webhookJobSchema,
+});
+
+export type WebhookJob = z.infer<typeof webhookJobSchema>;
+export type WebhookPayload = z.infer<typeof webhookPayloadSchema>;
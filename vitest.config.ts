@@ -0,0 +1,21 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    env: {
+      // config/environment.ts exits without a valid secret, and Vitest would
+      // otherwise set BASE_URL to its "/" base path, which isn't a URL
+      SESSION_SECRET: "test-session-secret-at-least-32-characters",
+      BASE_URL: "http://localhost:5000",
+    },
+  },
+});